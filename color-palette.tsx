@@ -1,42 +1,286 @@
 "use client"
 
-import { useState, useRef } from "react"
+import { Fragment, useEffect, useId, useMemo, useState, useRef } from "react"
 import { Input } from "@/components/ui/input"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Copy, Palette, Download, Upload, Image as ImageIcon } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Slider } from "@/components/ui/slider"
+import { Progress } from "@/components/ui/progress"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { ColorSwatch } from "@/components/color-swatch"
+import { ColorSpaceDetails } from "@/components/color-space-details"
+import { ContrastMatrix } from "@/components/contrast-matrix"
+import { ColorScaleStrip } from "@/components/color-scale-strip"
+import { HarmonyPanel } from "@/components/harmony-panel"
+import { ExtractionSummary } from "@/components/extraction-summary"
+import { ImageViewer, type SampleTarget } from "@/components/image-viewer"
+import { ImageStrip } from "@/components/image-strip"
+import { ExportDialog } from "@/components/export-dialog"
+import { ImportDialog, type ImportMode } from "@/components/import-dialog"
+import {
+  ArrowDownToLine,
+  ArrowUpToLine,
+  ArrowDown,
+  ArrowUp,
+  ChevronDown,
+  ChevronRight,
+  Copy,
+  GripVertical,
+  Layers,
+  MoreHorizontal,
+  Palette,
+  Plus,
+  Download,
+  FileInput,
+  Trash2,
+  Upload,
+  Image as ImageIcon,
+} from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { useColorExtraction } from "@/hooks/use-color-extraction"
+import {
+  DELTA_E_METHODS,
+  formatDisplayP3,
+  formatHex,
+  isInGamut,
+  parseColor,
+  parseHex,
+  withAlpha,
+  type Color,
+  type DeltaEMethod,
+  type ScaleCurve,
+} from "@/lib/color"
+import {
+  DEFAULT_MAX_PALETTE_SIZE,
+  DEFAULT_PALETTE_SIZE,
+  createEmptySlots,
+  findNearMatch,
+  getSlotScale,
+  insertSlots,
+  isSlotValid,
+  moveSlot,
+  placeColors,
+  placeSlots,
+  removeSlot,
+  setSlotInput,
+  trimSlots,
+  type PaletteSlot,
+} from "@/lib/palette"
+import {
+  DEFAULT_EXTRACTION,
+  EMPTY_SELECTION,
+  EXTRACTION_MODES,
+  SWATCH_PROFILES,
+  loadSourceImage,
+  releaseSourceImage,
+  type ExtractedColor,
+  type ExtractionMode,
+  type ExtractionOptions,
+  type RegionSelection,
+  type SourceImage,
+} from "@/lib/extract"
+import { QUANTIZERS, type QuantizerId } from "@/lib/quantize"
+import {
+  DEFAULT_PALETTE_NAME,
+  defaultColorName,
+  fromPortablePalette,
+  toPortablePalette,
+  type PortablePalette,
+} from "@/lib/formats"
+
+const SAMPLE_SIZES = [100, 200, 300, 500, 800]
+const MAX_IMAGES = 12
+const PROFILE_LABELS = Object.fromEntries(SWATCH_PROFILES.map(({ id, label }) => [id, label]))
+
+const FALLBACK_PICKER_COLOR: Color = { r: 0, g: 0, b: 0, alpha: 1 }
+
+// Drag payloads: a palette row being reordered, or a color dropped onto a row
+const ROW_DRAG_TYPE = "application/x-palette-row"
+const COLOR_DRAG_TYPE = "application/x-palette-color"
 
 export default function ColorPalette() {
-  const [colors, setColors] = useState<string[]>(Array(10).fill(""))
+  const slotIdPrefix = useId()
+  const [colors, setColors] = useState<PaletteSlot[]>(() => createEmptySlots(DEFAULT_PALETTE_SIZE, slotIdPrefix))
+  const [maxColors, setMaxColors] = useState(DEFAULT_MAX_PALETTE_SIZE)
+  // Held while typing so intermediate digits don't trim the palette
+  const [maxColorsDraft, setMaxColorsDraft] = useState<string | null>(null)
+  const [paletteName, setPaletteName] = useState(DEFAULT_PALETTE_NAME)
   const [pickerColor, setPickerColor] = useState("#3b82f6")
-  const [extractedColors, setExtractedColors] = useState<string[]>([])
-  const [uploadedImage, setUploadedImage] = useState<string | null>(null)
+  const [extractedColors, setExtractedColors] = useState<ExtractedColor[]>([])
+  const [extraction, setExtraction] = useState<ExtractionOptions>(DEFAULT_EXTRACTION)
+  // Whether the last extraction found colors outside sRGB
+  const [wideGamut, setWideGamut] = useState(false)
+  const [expandedRows, setExpandedRows] = useState<string[]>([])
+  const [dropTargetIndex, setDropTargetIndex] = useState<number | null>(null)
+  const [images, setImages] = useState<SourceImage[]>([])
+  const [activeImageId, setActiveImageId] = useState<string | null>(null)
+  const [combineImages, setCombineImages] = useState(false)
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false)
+  // Extracted color whose pixels are revealed on the image, while hovered
+  const [highlightedColor, setHighlightedColor] = useState<number | null>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const canvasRef = useRef<HTMLCanvasElement>(null)
+  // Only the first result for a fresh upload is announced, not live re-runs
+  const announceExtractionRef = useRef(false)
+  // The paste listener is registered once, so it calls through to the latest handler
+  const addImageFilesRef = useRef<(files: File[]) => void>(() => {})
+  // Drag handle of each row by slot id, for returning focus after a keyboard move
+  const rowHandlesRef = useRef(new Map<string, HTMLButtonElement>())
   const { toast } = useToast()
 
-  const isValidHex = (color: string): boolean => {
-    const hex = color.startsWith("#") ? color : `#${color}`
-    return /^#([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/.test(hex)
+  const extractor = useColorExtraction({
+    onResult: (result) => {
+      setExtractedColors(result.colors)
+      setWideGamut(result.wideGamut)
+      if (!announceExtractionRef.current) return
+      announceExtractionRef.current = false
+      toast({
+        title: "Colors extracted!",
+        description: `Found ${result.colors.length} dominant colors from the image`,
+      })
+    },
+    onError: (message) => {
+      toast({ title: "Extraction failed", description: message, variant: "destructive" })
+    },
+  })
+
+  const validSwatches = useMemo(
+    () => colors.flatMap((slot, index) => (slot.value ? [{ index, value: slot.value }] : [])),
+    [colors],
+  )
+
+  const activeImage = images.find((image) => image.id === activeImageId) ?? null
+  const portablePalette = useMemo(() => toPortablePalette(colors, paletteName), [colors, paletteName])
+  const clusterColors = useMemo(() => extractedColors.map(({ value }) => value), [extractedColors])
+
+  // Extracted colors that would land next to a near-identical palette color
+  const paletteMatches = useMemo(
+    () => extractedColors.map(({ value }) => findNearMatch(value, colors, extraction.mergeThreshold, extraction.deltaE)),
+    [extractedColors, colors, extraction.mergeThreshold, extraction.deltaE],
+  )
+  const nearDuplicateCount = paletteMatches.filter(Boolean).length
+
+  const pickerRgba = parseColor(pickerColor) ?? FALLBACK_PICKER_COLOR
+
+  // The native picker has no alpha, so keep whatever the slider last set
+  const handleNativePickerChange = (value: string) => {
+    const picked = parseHex(value)
+    if (picked) setPickerColor(formatHex(withAlpha(picked, pickerRgba.alpha)))
   }
 
-  const normalizeHex = (color: string): string => {
-    if (!color) return ""
-    const hex = color.startsWith("#") ? color : `#${color}`
-    return isValidHex(hex) ? hex : ""
+  const handlePickerAlphaChange = (percent: number) => {
+    setPickerColor(formatHex(withAlpha(pickerRgba, percent / 100)))
   }
 
   const handleColorChange = (index: number, value: string) => {
     const newColors = [...colors]
-    newColors[index] = value
+    newColors[index] = setSlotInput(newColors[index], value)
+    setColors(newColors)
+  }
+
+  const updateSlotColor = (index: number, color: Color) => {
+    const newColors = [...colors]
+    // Keep wide-gamut edits as Display-P3 rather than clipping them to hex
+    newColors[index] = setSlotInput(newColors[index], isInGamut(color) ? formatHex(color) : formatDisplayP3(color))
+    setColors(newColors)
+  }
+
+  const updateSlotDetails = (index: number, details: Pick<PaletteSlot, "name" | "description">) => {
+    const newColors = [...colors]
+    newColors[index] = { ...newColors[index], ...details }
+    setColors(newColors)
+  }
+
+  const setSlotScale = (index: number, scale: ScaleCurve | undefined) => {
+    const newColors = [...colors]
+    newColors[index] = { ...newColors[index], scale }
     setColors(newColors)
   }
 
+  const applyContrastFix = (index: number, value: string) => {
+    handleColorChange(index, value)
+    toast({
+      title: "Contrast fixed",
+      description: `Replaced row ${index + 1} with ${value}`,
+    })
+  }
+
+  const toggleRowDetails = (slotId: string) => {
+    setExpandedRows((rows) => (rows.includes(slotId) ? rows.filter((row) => row !== slotId) : [...rows, slotId]))
+  }
+
+  const insertRow = (index: number) => {
+    if (colors.length >= maxColors) {
+      toast({
+        title: "Palette full",
+        description: `The palette is limited to ${maxColors} colors`,
+        variant: "destructive",
+      })
+      return
+    }
+    setColors(insertSlots(colors, index, 1, maxColors))
+  }
+
+  const deleteRow = (index: number) => {
+    setColors(removeSlot(colors, index))
+  }
+
+  const moveRow = (from: number, to: number) => {
+    setColors(moveSlot(colors, from, to))
+  }
+
+  // Moving re-inserts the row's DOM node, so hand focus back to its handle afterwards
+  const moveRowWithKeyboard = (slotId: string, from: number, to: number) => {
+    moveRow(from, to)
+    requestAnimationFrame(() => rowHandlesRef.current.get(slotId)?.focus())
+  }
+
+  const handleRowDragOver = (event: React.DragEvent, index: number) => {
+    const { types } = event.dataTransfer
+    if (!types.includes(ROW_DRAG_TYPE) && !types.includes(COLOR_DRAG_TYPE)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = types.includes(COLOR_DRAG_TYPE) ? "copy" : "move"
+    setDropTargetIndex(index)
+  }
+
+  const handleRowDrop = (event: React.DragEvent, index: number) => {
+    event.preventDefault()
+    setDropTargetIndex(null)
+
+    const color = event.dataTransfer.getData(COLOR_DRAG_TYPE)
+    if (color) {
+      addExtractedColor(color, index)
+      return
+    }
+
+    const from = event.dataTransfer.getData(ROW_DRAG_TYPE)
+    if (from !== "") moveRow(Number(from), index)
+  }
+
+  const commitMaxColors = () => {
+    if (maxColorsDraft === null) return
+    const parsed = parseInt(maxColorsDraft, 10)
+    setMaxColorsDraft(null)
+    if (!Number.isFinite(parsed)) return
+
+    const trimmed = trimSlots(colors, Math.max(1, parsed))
+    setColors(trimmed)
+    // Rows that hold colors are never dropped, so the limit stops at them
+    setMaxColors(Math.max(1, parsed, trimmed.length))
+  }
+
   const addColorFromPicker = (index: number) => {
     const newColors = [...colors]
-    newColors[index] = pickerColor
+    newColors[index] = setSlotInput(newColors[index], pickerColor)
     setColors(newColors)
     toast({
       title: "Color added",
@@ -45,28 +289,24 @@ export default function ColorPalette() {
   }
 
   const addExtractedColor = (color: string, index?: number) => {
-    const newColors = [...colors]
-    const targetIndex = index !== undefined ? index : colors.findIndex((c) => !c)
-    
-    if (targetIndex !== -1) {
-      newColors[targetIndex] = color
-      setColors(newColors)
-      toast({
-        title: "Color added",
-        description: `Added ${color} to row ${targetIndex + 1}`,
-      })
-    } else {
-      toast({
-        title: "Palette full",
-        description: "All color slots are filled",
-        variant: "destructive"
-      })
+    if (index === undefined) {
+      addColors([color])
+      return
     }
+
+    const newColors = [...colors]
+    newColors[index] = setSlotInput(newColors[index], color)
+    setColors(newColors)
+    toast({
+      title: "Color added",
+      description: `Added ${color} to row ${index + 1}`,
+    })
   }
 
   const copyColor = (color: string) => {
-    const normalizedColor = normalizeHex(color)
-    if (normalizedColor) {
+    const parsed = parseColor(color)
+    if (parsed) {
+      const normalizedColor = formatHex(parsed)
       navigator.clipboard.writeText(normalizedColor)
       toast({
         title: "Copied!",
@@ -75,130 +315,238 @@ export default function ColorPalette() {
     }
   }
 
-  const rgbToHex = (r: number, g: number, b: number): string => {
-    // Ensure values are valid and within range
-    const clampedR = Math.max(0, Math.min(255, Math.floor(r)))
-    const clampedG = Math.max(0, Math.min(255, Math.floor(g)))
-    const clampedB = Math.max(0, Math.min(255, Math.floor(b)))
-    
-    return "#" + [clampedR, clampedG, clampedB].map(x => {
-      const hex = x.toString(16).toLowerCase()
-      return hex.length === 1 ? "0" + hex : hex
-    }).join("")
-  }
-
-  const extractColorsFromImage = (imageElement: HTMLImageElement) => {
-    const canvas = canvasRef.current
-    if (!canvas) return
-
-    const ctx = canvas.getContext("2d")
-    if (!ctx) return
-
-    // Set canvas size to image size (but limit for performance)
-    const maxSize = 300
-    const ratio = Math.min(maxSize / imageElement.width, maxSize / imageElement.height)
-    canvas.width = imageElement.width * ratio
-    canvas.height = imageElement.height * ratio
-
-    // Draw image on canvas
-    ctx.drawImage(imageElement, 0, 0, canvas.width, canvas.height)
-
-    // Get image data
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height)
-    const pixels = imageData.data
-
-    // Color frequency map
-    const colorMap = new Map<string, { r: number, g: number, b: number, count: number }>()
-
-    // Sample pixels (every 4th pixel for performance)
-    for (let i = 0; i < pixels.length; i += 16) {
-      const r = pixels[i]
-      const g = pixels[i + 1]
-      const b = pixels[i + 2]
-      const alpha = pixels[i + 3]
-
-      // Skip transparent or invalid pixels
-      if (alpha < 128 || r === undefined || g === undefined || b === undefined) continue
-
-      // Group similar colors (reduce precision for better grouping)
-      const groupedR = Math.round(r / 20) * 20
-      const groupedG = Math.round(g / 20) * 20
-      const groupedB = Math.round(b / 20) * 20
-
-      const colorKey = `${groupedR}-${groupedG}-${groupedB}`
-      
-      if (colorMap.has(colorKey)) {
-        const existing = colorMap.get(colorKey)!
-        existing.count += 1
-      } else {
-        colorMap.set(colorKey, { r: groupedR, g: groupedG, b: groupedB, count: 1 })
-      }
+  // Extracts from every image when combining, otherwise from the active one. Callers pass
+  // whatever they just changed, since state set in the same handler is not applied yet.
+  // `debounce` waits for rapid changes such as slider drags to settle before running.
+  const extractFrom = ({
+    images: list = images,
+    activeId = activeImageId,
+    options = extraction,
+    combine = combineImages,
+    debounce = false,
+  }: {
+    images?: SourceImage[]
+    activeId?: string | null
+    options?: ExtractionOptions
+    combine?: boolean
+    debounce?: boolean
+  } = {}) => {
+    const active = list.find((image) => image.id === activeId)
+    const sources = combine ? list : active ? [active] : []
+    if (sources.length === 0) {
+      extractor.cancel()
+      setExtractedColors([])
+      setWideGamut(false)
+      return
     }
+    const run = debounce ? extractor.schedule : extractor.extract
+    run(
+      sources.map(({ bitmap, selection }) => ({ bitmap, selection })),
+      options,
+    )
+  }
+
+  // Re-runs on the images already loaded, so tuning needs no new upload
+  const updateExtraction = (changes: Partial<ExtractionOptions>) => {
+    const next = { ...extraction, ...changes }
+    setExtraction(next)
+    extractFrom({ options: next, debounce: true })
+  }
+
+  const updateSelection = (next: RegionSelection) => {
+    const list = images.map((image) => (image.id === activeImageId ? { ...image, selection: next } : image))
+    setImages(list)
+    extractFrom({ images: list })
+  }
+
+  const selectImage = (id: string) => {
+    setActiveImageId(id)
+    setHighlightedColor(null)
+    if (!combineImages) extractFrom({ activeId: id })
+  }
+
+  const removeImage = (id: string) => {
+    const removed = images.find((image) => image.id === id)
+    if (removed) releaseSourceImage(removed)
+    const list = images.filter((image) => image.id !== id)
+    const activeId = id === activeImageId ? (list[list.length - 1]?.id ?? null) : activeImageId
+    setImages(list)
+    setActiveImageId(activeId)
+    setHighlightedColor(null)
+    extractFrom({ images: list, activeId })
+  }
 
-    // Sort colors by frequency and get top 5
-    const sortedColors = Array.from(colorMap.values())
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 5)
-      .map(({ r, g, b }) => rgbToHex(r, g, b))
-      .filter(color => color.length === 7) // Ensure valid hex format
+  const setCombine = (combine: boolean) => {
+    setCombineImages(combine)
+    extractFrom({ combine })
+  }
 
-    setExtractedColors(sortedColors)
+  const applySampledColor = (color: string, target: SampleTarget) => {
+    if (target === "picker") setPickerColor(color)
+    else handleColorChange(target, color)
     toast({
-      title: "Colors extracted!",
-      description: `Found ${sortedColors.length} dominant colors from the image`,
+      title: "Color sampled",
+      description: target === "picker" ? `${color} sent to the picker` : `${color} set on row ${target + 1}`,
     })
   }
 
-  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    if (!file) return
-
-    if (!file.type.startsWith('image/')) {
+  const addImageFiles = async (files: File[]) => {
+    const imageFiles = files.filter((file) => file.type.startsWith("image/"))
+    if (imageFiles.length < files.length) {
       toast({
         title: "Invalid file",
-        description: "Please upload an image file",
-        variant: "destructive"
+        description: "Please upload image files",
+        variant: "destructive",
+      })
+    }
+    const accepted = imageFiles.slice(0, MAX_IMAGES - images.length)
+    if (accepted.length < imageFiles.length) {
+      toast({
+        title: "Too many images",
+        description: `Up to ${MAX_IMAGES} images can be loaded at once`,
+        variant: "destructive",
+      })
+    }
+    if (accepted.length === 0) return
+
+    const results = await Promise.allSettled(accepted.map(loadSourceImage))
+    const loaded = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []))
+    const failures = results.flatMap((result, i) =>
+      result.status === "rejected"
+        ? [`${accepted[i].name}: ${result.reason instanceof Error ? result.reason.message : "unknown error"}`]
+        : [],
+    )
+    if (failures.length > 0) {
+      toast({
+        title: failures.length === 1 ? "Could not read image" : `Could not read ${failures.length} images`,
+        description: failures.join("\n"),
+        variant: "destructive",
       })
-      return
     }
+    if (loaded.length === 0) return
 
-    const reader = new FileReader()
-    reader.onload = (e) => {
-      const imageUrl = e.target?.result as string
-      setUploadedImage(imageUrl)
+    announceExtractionRef.current = true
+    const list = [...images, ...loaded]
+    const activeId = loaded[loaded.length - 1].id
+    setImages(list)
+    setActiveImageId(activeId)
+    setHighlightedColor(null)
+    extractFrom({ images: list, activeId })
+  }
+  addImageFilesRef.current = addImageFiles
 
-      // Create image element to extract colors
-      const img = new Image()
-      img.onload = () => extractColorsFromImage(img)
-      img.src = imageUrl
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const files = Array.from(event.clipboardData?.files ?? []).filter((file) => file.type.startsWith("image/"))
+      if (files.length === 0) return
+      event.preventDefault()
+      addImageFilesRef.current(files)
     }
-    reader.readAsDataURL(file)
+    window.addEventListener("paste", handlePaste)
+    return () => window.removeEventListener("paste", handlePaste)
+  }, [])
+
+  const handleImageUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    addImageFiles(Array.from(event.target.files ?? []))
+    // Let the same file be chosen again after it was removed
+    event.target.value = ""
   }
 
-  const exportPalette = () => {
-    const validColors = colors.filter((color) => normalizeHex(color))
-    const paletteData = {
-      name: "My Color Palette",
-      colors: validColors.map((color) => normalizeHex(color)),
-      created: new Date().toISOString(),
+  const handleCardDragOver = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes("Files")) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = "copy"
+    setIsDraggingFiles(true)
+  }
+
+  const handleCardDragLeave = (event: React.DragEvent) => {
+    if (!event.currentTarget.contains(event.relatedTarget as Node | null)) setIsDraggingFiles(false)
+  }
+
+  const handleCardDrop = (event: React.DragEvent) => {
+    if (!event.dataTransfer.types.includes("Files")) return
+    event.preventDefault()
+    setIsDraggingFiles(false)
+    addImageFiles(Array.from(event.dataTransfer.files))
+  }
+
+  // Replacing grows the maximum if the import has more colors than it allows; appending fills empty rows first
+  const handleImport = (palette: PortablePalette, mode: ImportMode) => {
+    const imported = fromPortablePalette(palette)
+    if (mode === "replace") {
+      setColors(imported)
+      setMaxColors(Math.max(maxColors, imported.length))
+      setPaletteName(palette.name)
+      setExpandedRows([])
+      toast({ title: "Palette imported", description: `Loaded ${imported.length} colors from ${palette.name}` })
+      return
     }
 
-    const blob = new Blob([JSON.stringify(paletteData, null, 2)], { type: "application/json" })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = "color-palette.json"
-    a.click()
-    URL.revokeObjectURL(url)
+    const { slots, placed } = placeSlots(colors, imported, maxColors)
+    setColors(slots)
+    toast({
+      title: placed.length === 0 ? "Palette full" : "Colors appended",
+      description:
+        placed.length < imported.length
+          ? `Added ${placed.length} of ${imported.length} colors; the palette is limited to ${maxColors}`
+          : `Added ${placed.length} colors from ${palette.name}`,
+      variant: placed.length === 0 ? "destructive" : "default",
+    })
+  }
+
+  const notifyCopied = (formatLabel: string) => {
+    toast({ title: "Copied to clipboard", description: `Palette copied as ${formatLabel}` })
+  }
+
+  const notifyCopyFailed = (message: string) => {
+    toast({ title: "Copy failed", description: message, variant: "destructive" })
+  }
+
+  const notifyDownloaded = (fileName: string) => {
+    toast({ title: "Palette exported", description: `Your color palette has been downloaded as ${fileName}` })
+  }
+
+  // Fills empty rows first, then grows the palette up to the configured maximum
+  const addColors = (newSlotColors: string[]) => {
+    const { slots, placed } = placeColors(colors, newSlotColors, maxColors)
+    setColors(slots)
+    const added = placed.length
+
+    if (added < newSlotColors.length) {
+      toast({
+        title: added === 0 ? "Palette full" : "Some colors skipped",
+        description: `Added ${added} of ${newSlotColors.length} colors; the palette is limited to ${maxColors}`,
+        variant: added === 0 ? "destructive" : "default",
+      })
+    } else if (added === 1) {
+      toast({
+        title: "Color added",
+        description: `Added ${newSlotColors[0]} to row ${placed[0] + 1}`,
+      })
+    } else {
+      toast({
+        title: "Colors added",
+        description: `Added ${added} colors to the palette`,
+      })
+    }
+  }
 
+  const replacePalette = (newSlotColors: string[]) => {
+    const kept = newSlotColors.slice(0, maxColors)
+    const newColors = createEmptySlots(Math.min(maxColors, Math.max(colors.length, kept.length)))
+    kept.forEach((color, index) => {
+      newColors[index] = setSlotInput(newColors[index], color)
+    })
+    setColors(newColors)
     toast({
-      title: "Palette exported",
-      description: "Your color palette has been downloaded as JSON",
+      title: "Palette replaced",
+      description: `The palette now holds ${kept.length} colors`,
     })
   }
 
   const clearAll = () => {
-    setColors(Array(10).fill(""))
+    setColors(createEmptySlots(Math.min(DEFAULT_PALETTE_SIZE, maxColors)))
+    setExpandedRows([])
     toast({
       title: "Palette cleared",
       description: "All colors have been removed from the palette",
@@ -211,27 +559,56 @@ export default function ColorPalette() {
         <div className="mb-6 text-center">
           <h1 className="text-3xl font-bold text-gray-900 mb-2">Color Palette Creator</h1>
           <p className="text-gray-600">
-            Create your custom color palette by entering hex codes, using the color picker, or extracting colors from images
+            Create your custom color palette by entering any CSS color, using the color picker, or extracting colors from images
           </p>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Color Table */}
-          <div className="lg:col-span-2">
+          <div className="lg:col-span-2 space-y-4">
             <Card>
               <CardHeader className="flex flex-row items-center justify-between">
                 <CardTitle className="flex items-center gap-2">
                   <Palette className="h-5 w-5" />
                   Color Palette
                 </CardTitle>
-                <div className="flex gap-2">
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-1 text-sm text-gray-600">
+                    Max
+                    <Input
+                      type="number"
+                      min={1}
+                      value={maxColorsDraft ?? maxColors}
+                      onChange={(e) => setMaxColorsDraft(e.target.value)}
+                      onBlur={commitMaxColors}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitMaxColors()
+                        if (e.key === "Escape") setMaxColorsDraft(null)
+                      }}
+                      className="h-9 w-16"
+                    />
+                  </label>
                   <Button onClick={clearAll} variant="outline" size="sm">
                     Clear All
                   </Button>
-                  <Button onClick={exportPalette} variant="outline" size="sm">
-                    <Download className="h-4 w-4 mr-2" />
-                    Export
-                  </Button>
+                  <ImportDialog onImport={handleImport}>
+                    <Button variant="outline" size="sm">
+                      <FileInput className="h-4 w-4 mr-2" />
+                      Import
+                    </Button>
+                  </ImportDialog>
+                  <ExportDialog
+                    palette={portablePalette}
+                    onPaletteNameChange={setPaletteName}
+                    onCopy={notifyCopied}
+                    onCopyFailed={notifyCopyFailed}
+                    onDownload={notifyDownloaded}
+                  >
+                    <Button variant="outline" size="sm">
+                      <Download className="h-4 w-4 mr-2" />
+                      Export
+                    </Button>
+                  </ExportDialog>
                 </div>
               </CardHeader>
               <CardContent>
@@ -239,70 +616,231 @@ export default function ColorPalette() {
                   <TableHeader>
                     <TableRow>
                       <TableHead className="w-16">#</TableHead>
-                      <TableHead>Hex Code</TableHead>
-                      <TableHead className="w-32">Color Preview</TableHead>
-                      <TableHead className="w-24">Actions</TableHead>
+                      <TableHead>Color</TableHead>
+                      <TableHead className="w-48">Color Preview</TableHead>
+                      <TableHead className="w-40">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
-                    {colors.map((color, index) => {
-                      const normalizedColor = normalizeHex(color)
-                      const isValid = color === "" || normalizedColor !== ""
+                    {colors.map((slot, index) => {
+                      const normalizedColor = slot.value
+                      const isValid = isSlotValid(slot)
+                      const isExpanded = normalizedColor !== "" && expandedRows.includes(slot.id)
+                      const scaleStops = getSlotScale(slot)
 
                       return (
-                        <TableRow key={index}>
-                          <TableCell className="font-medium">{index + 1}</TableCell>
-                          <TableCell>
-                            <Input
-                              value={color}
-                              onChange={(e) => handleColorChange(index, e.target.value)}
-                              placeholder="e.g., #3b82f6 or 3b82f6"
-                              className={`font-mono ${!isValid ? "border-red-500" : ""}`}
-                            />
-                            {!isValid && <p className="text-xs text-red-500 mt-1">Invalid hex color</p>}
-                          </TableCell>
-                          <TableCell>
-                            <div className="flex items-center gap-2">
-                              <div
-                                className="w-12 h-8 rounded border-2 border-gray-200"
-                                style={{
-                                  backgroundColor: normalizedColor || "#ffffff",
-                                }}
+                        <Fragment key={slot.id}>
+                          <TableRow
+                            onDragOver={(e) => handleRowDragOver(e, index)}
+                            onDrop={(e) => handleRowDrop(e, index)}
+                            className={dropTargetIndex === index ? "bg-blue-50 outline outline-2 -outline-offset-2 outline-blue-400" : ""}
+                          >
+                            <TableCell className="font-medium">
+                              <div className="flex items-center gap-1">
+                                <button
+                                  ref={(handle) => {
+                                    if (handle) rowHandlesRef.current.set(slot.id, handle)
+                                    else rowHandlesRef.current.delete(slot.id)
+                                  }}
+                                  type="button"
+                                  draggable
+                                  onDragStart={(e) => {
+                                    e.dataTransfer.setData(ROW_DRAG_TYPE, String(index))
+                                    e.dataTransfer.effectAllowed = "move"
+                                  }}
+                                  onDragEnd={() => setDropTargetIndex(null)}
+                                  onKeyDown={(e) => {
+                                    if (e.key === "ArrowUp" && index > 0) {
+                                      e.preventDefault()
+                                      moveRowWithKeyboard(slot.id, index, index - 1)
+                                    } else if (e.key === "ArrowDown" && index < colors.length - 1) {
+                                      e.preventDefault()
+                                      moveRowWithKeyboard(slot.id, index, index + 1)
+                                    }
+                                  }}
+                                  aria-label={`Reorder row ${index + 1}. Drag, or use the arrow keys to move it.`}
+                                  className="cursor-grab text-gray-400 hover:text-gray-900 active:cursor-grabbing"
+                                >
+                                  <GripVertical className="h-4 w-4" />
+                                </button>
+                                <button
+                                  type="button"
+                                  onClick={() => toggleRowDetails(slot.id)}
+                                  disabled={!normalizedColor}
+                                  aria-expanded={isExpanded}
+                                  aria-label={`Toggle color spaces for row ${index + 1}`}
+                                  className="text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                                >
+                                  {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                                </button>
+                                {index + 1}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <Input
+                                value={slot.input}
+                                onChange={(e) => handleColorChange(index, e.target.value)}
+                                placeholder="e.g., #3b82f6, rgb(59 130 246) or rebeccapurple"
+                                className={`font-mono ${!isValid ? "border-red-500" : ""}`}
                               />
-                              {normalizedColor && (
-                                <span className="text-xs font-mono text-gray-600">{normalizedColor}</span>
-                              )}
-                            </div>
-                          </TableCell>
-                          <TableCell>
-                            <div className="flex gap-1">
-                              <Button
-                                size="sm"
-                                variant="outline"
-                                onClick={() => addColorFromPicker(index)}
-                                className="h-8 w-8 p-0"
-                              >
-                                +
-                              </Button>
-                              {normalizedColor && (
+                              {!isValid && <p className="text-xs text-red-500 mt-1">Invalid color</p>}
+                              <div className="mt-1 grid grid-cols-[8rem_1fr] gap-1">
+                                <Input
+                                  value={slot.name ?? ""}
+                                  onChange={(e) => updateSlotDetails(index, { name: e.target.value })}
+                                  placeholder={defaultColorName(index)}
+                                  aria-label={`Name of row ${index + 1}`}
+                                  className="h-7 text-xs"
+                                />
+                                <Input
+                                  value={slot.description ?? ""}
+                                  onChange={(e) => updateSlotDetails(index, { description: e.target.value })}
+                                  placeholder="Description"
+                                  aria-label={`Description of row ${index + 1}`}
+                                  className="h-7 text-xs"
+                                />
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <ColorSwatch
+                                  className="w-12 h-8 shrink-0 rounded border-2 border-gray-200"
+                                  color={normalizedColor || "#ffffff"}
+                                />
+                                {normalizedColor && (
+                                  <div className="min-w-0 space-y-0.5">
+                                    <span className="block text-xs font-mono text-gray-600">{normalizedColor}</span>
+                                    {slot.format && slot.format !== "hex" && (
+                                      <div className="flex items-center gap-1">
+                                        <Badge variant="secondary" className="px-1.5 py-0 text-[10px] uppercase">
+                                          {slot.format}
+                                        </Badge>
+                                        <span
+                                          className="truncate text-[10px] font-mono text-gray-500"
+                                          title={slot.input.trim()}
+                                        >
+                                          {slot.input.trim()}
+                                        </span>
+                                      </div>
+                                    )}
+                                  </div>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex gap-1">
                                 <Button
                                   size="sm"
                                   variant="outline"
-                                  onClick={() => copyColor(color)}
+                                  onClick={() => addColorFromPicker(index)}
                                   className="h-8 w-8 p-0"
                                 >
-                                  <Copy className="h-3 w-3" />
+                                  +
                                 </Button>
-                              )}
-                            </div>
-                          </TableCell>
-                        </TableRow>
+                                {normalizedColor && (
+                                  <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => copyColor(slot.value)}
+                                    className="h-8 w-8 p-0"
+                                  >
+                                    <Copy className="h-3 w-3" />
+                                  </Button>
+                                )}
+                                {normalizedColor && (
+                                  <Button
+                                    size="sm"
+                                    variant={slot.scale ? "secondary" : "outline"}
+                                    onClick={() => setSlotScale(index, slot.scale ? undefined : "tailwind")}
+                                    className="h-8 w-8 p-0"
+                                    title={slot.scale ? "Remove scale" : "Generate 50–950 scale"}
+                                  >
+                                    <Layers className="h-3 w-3" />
+                                  </Button>
+                                )}
+                                <DropdownMenu>
+                                  <DropdownMenuTrigger asChild>
+                                    <Button size="sm" variant="ghost" className="h-8 w-8 p-0" aria-label={`Row ${index + 1} options`}>
+                                      <MoreHorizontal className="h-3 w-3" />
+                                    </Button>
+                                  </DropdownMenuTrigger>
+                                  <DropdownMenuContent align="end">
+                                    <DropdownMenuItem onSelect={() => moveRow(index, index - 1)} disabled={index === 0}>
+                                      <ArrowUp className="h-4 w-4 mr-2" />
+                                      Move Up
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem
+                                      onSelect={() => moveRow(index, index + 1)}
+                                      disabled={index === colors.length - 1}
+                                    >
+                                      <ArrowDown className="h-4 w-4 mr-2" />
+                                      Move Down
+                                    </DropdownMenuItem>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem onSelect={() => insertRow(index)}>
+                                      <ArrowUpToLine className="h-4 w-4 mr-2" />
+                                      Insert Above
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem onSelect={() => insertRow(index + 1)}>
+                                      <ArrowDownToLine className="h-4 w-4 mr-2" />
+                                      Insert Below
+                                    </DropdownMenuItem>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuItem onSelect={() => deleteRow(index)} className="text-red-600">
+                                      <Trash2 className="h-4 w-4 mr-2" />
+                                      Delete Row
+                                    </DropdownMenuItem>
+                                  </DropdownMenuContent>
+                                </DropdownMenu>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                          {isExpanded && (
+                            <TableRow className="bg-gray-50/50 hover:bg-gray-50/50">
+                              <TableCell colSpan={4}>
+                                <ColorSpaceDetails
+                                  input={slot.input}
+                                  onChange={(color) => updateSlotColor(index, color)}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                          {scaleStops && slot.scale && (
+                            <TableRow className="hover:bg-transparent">
+                              <TableCell colSpan={4}>
+                                <ColorScaleStrip
+                                  stops={scaleStops}
+                                  curve={slot.scale}
+                                  onCurveChange={(curve) => setSlotScale(index, curve)}
+                                  onRemove={() => setSlotScale(index, undefined)}
+                                  onCopy={copyColor}
+                                />
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
                       )
                     })}
                   </TableBody>
                 </Table>
+                <div className="mt-3 flex items-center justify-between">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => insertRow(colors.length)}
+                    disabled={colors.length >= maxColors}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Row
+                  </Button>
+                  <span className="text-xs text-gray-500">
+                    {colors.length} of {maxColors} rows
+                  </span>
+                </div>
               </CardContent>
             </Card>
+
+            <ContrastMatrix swatches={validSwatches} onReplace={applyContrastFix} />
           </div>
 
           {/* Right Panel */}
@@ -316,12 +854,29 @@ export default function ColorPalette() {
                 <div className="space-y-2">
                   <input
                     type="color"
-                    value={pickerColor}
-                    onChange={(e) => setPickerColor(e.target.value)}
+                    value={formatHex(withAlpha(pickerRgba, 1))}
+                    onChange={(e) => handleNativePickerChange(e.target.value)}
                     className="w-full h-16 rounded-lg border-2 border-gray-200 cursor-pointer"
                   />
                 </div>
 
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium">Alpha:</label>
+                    <span className="text-xs font-mono text-gray-600">{Math.round(pickerRgba.alpha * 100)}%</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Slider
+                      value={[Math.round(pickerRgba.alpha * 100)]}
+                      onValueChange={([value]) => handlePickerAlphaChange(value)}
+                      min={0}
+                      max={100}
+                      step={1}
+                    />
+                    <ColorSwatch className="w-8 h-6 shrink-0 rounded border border-gray-200" color={pickerColor} />
+                  </div>
+                </div>
+
                 <div className="flex items-center gap-2">
                   <Input 
                     value={pickerColor} 
@@ -337,17 +892,7 @@ export default function ColorPalette() {
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => {
-                      const emptyIndex = colors.findIndex((c) => !c)
-                      if (emptyIndex !== -1) {
-                        addColorFromPicker(emptyIndex)
-                      } else {
-                        toast({
-                          title: "Palette full",
-                          description: "All color slots are filled",
-                        })
-                      }
-                    }}
+                    onClick={() => addColors([pickerColor])}
                   >
                     Add to Next
                   </Button>
@@ -372,11 +917,23 @@ export default function ColorPalette() {
                     )}
                   </div>
                 </div>
+
+                <HarmonyPanel
+                  baseColor={pickerColor}
+                  onPick={setPickerColor}
+                  onFillEmpty={addColors}
+                  onReplacePalette={replacePalette}
+                />
               </CardContent>
             </Card>
 
             {/* Image Color Extractor */}
-            <Card className="h-fit">
+            <Card
+              className={`h-fit ${isDraggingFiles ? "ring-2 ring-blue-500 ring-offset-2" : ""}`}
+              onDragOver={handleCardDragOver}
+              onDragLeave={handleCardDragLeave}
+              onDrop={handleCardDrop}
+            >
               <CardHeader className="pb-3">
                 <CardTitle className="flex items-center gap-2 text-lg">
                   <ImageIcon className="h-4 w-4" />
@@ -391,63 +948,267 @@ export default function ColorPalette() {
                     className="w-full"
                   >
                     <Upload className="h-4 w-4 mr-2" />
-                    Upload Image
+                    Upload Images
                   </Button>
+                  <p className="text-xs text-center text-gray-500">or drop files here, or paste with Ctrl+V</p>
                   <input
                     ref={fileInputRef}
                     type="file"
                     accept="image/*"
+                    multiple
                     onChange={handleImageUpload}
                     className="hidden"
                   />
+                  <div className="grid grid-cols-2 gap-2">
+                    <Select
+                      value={extraction.mode}
+                      onValueChange={(value) => updateExtraction({ mode: value as ExtractionMode })}
+                    >
+                      <SelectTrigger className="h-8 text-xs" aria-label="Extraction mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXTRACTION_MODES.map(({ id, label }) => (
+                          <SelectItem key={id} value={id} className="text-xs">
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={extraction.quantizer}
+                      onValueChange={(value) => updateExtraction({ quantizer: value as QuantizerId })}
+                    >
+                      <SelectTrigger className="h-8 text-xs" aria-label="Quantization algorithm">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {QUANTIZERS.map(({ id, label }) => (
+                          <SelectItem key={id} value={id} className="text-xs">
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
-                {uploadedImage && (
-                  <div className="space-y-2">
-                    <img
-                      src={uploadedImage}
-                      alt="Uploaded"
-                      className="w-full h-32 object-cover rounded border"
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium">Colors:</label>
+                    <span className="text-xs font-mono text-gray-600">{extraction.colorCount}</span>
+                  </div>
+                  <Slider
+                    value={[extraction.colorCount]}
+                    onValueChange={([value]) => updateExtraction({ colorCount: value })}
+                    min={2}
+                    max={32}
+                    step={1}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-1">
+                    <label className="text-sm font-medium">Resolution:</label>
+                    <Select
+                      value={String(extraction.maxSize)}
+                      onValueChange={(value) => updateExtraction({ maxSize: Number(value) })}
+                    >
+                      <SelectTrigger className="h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SAMPLE_SIZES.map((size) => (
+                          <SelectItem key={size} value={String(size)} className="text-xs">
+                            {size}px
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm font-medium">Stride:</label>
+                      <span className="text-xs font-mono text-gray-600">{extraction.stride}</span>
+                    </div>
+                    <Slider
+                      className="h-8"
+                      value={[extraction.stride]}
+                      onValueChange={([value]) => updateExtraction({ stride: value })}
+                      min={1}
+                      max={16}
+                      step={1}
+                      aria-label="Read every nth pixel"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <label className="text-sm font-medium">Merge within ΔE:</label>
+                    <span className="text-xs font-mono text-gray-600">
+                      {extraction.mergeThreshold === 0 ? "off" : extraction.mergeThreshold}
+                    </span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Slider
+                      value={[extraction.mergeThreshold]}
+                      onValueChange={([value]) => updateExtraction({ mergeThreshold: value })}
+                      min={0}
+                      max={20}
+                      step={0.5}
+                    />
+                    <Select
+                      value={extraction.deltaE}
+                      onValueChange={(value) => updateExtraction({ deltaE: value as DeltaEMethod })}
+                    >
+                      <SelectTrigger className="h-8 w-28 shrink-0 text-xs" aria-label="Color difference formula">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DELTA_E_METHODS.map(({ id, label }) => (
+                          <SelectItem key={id} value={id} className="text-xs">
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                {wideGamut && (
+                  <div className="flex items-center justify-between gap-2 rounded border border-gray-200 px-2 py-1.5">
+                    <label htmlFor="gamut-map" className="text-xs text-gray-600">
+                      Wide-gamut image: map colors to sRGB
+                    </label>
+                    <Switch
+                      id="gamut-map"
+                      checked={extraction.gamutMap}
+                      onCheckedChange={(gamutMap) => updateExtraction({ gamutMap })}
                     />
                   </div>
                 )}
 
+                {extractor.progress !== null && (
+                  <div className="flex items-center gap-2">
+                    <Progress value={extractor.progress} className="h-2" />
+                    <Button variant="ghost" size="sm" onClick={extractor.cancel} className="h-6 px-2 text-xs">
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+
+                <ImageStrip
+                  images={images}
+                  activeId={activeImageId}
+                  onSelect={selectImage}
+                  onRemove={removeImage}
+                  combine={combineImages}
+                  onCombineChange={setCombine}
+                />
+
+                <ImageViewer
+                  image={activeImage?.bitmap ?? null}
+                  rowCount={colors.length}
+                  onSample={applySampledColor}
+                  selection={activeImage?.selection ?? EMPTY_SELECTION}
+                  onSelectionChange={updateSelection}
+                  clusterColors={clusterColors}
+                  highlightIndex={highlightedColor}
+                />
+
                 {extractedColors.length > 0 && (
                   <div className="space-y-2">
                     <label className="text-sm font-medium">Extracted Colors:</label>
+                    <ExtractionSummary
+                      colors={extractedColors}
+                      activeIndex={highlightedColor}
+                      onActiveChange={setHighlightedColor}
+                    />
                     <div className="space-y-1">
-                      {extractedColors.map((color, index) => (
-                        <div key={index} className="flex items-center gap-2">
+                      {extractedColors.map(({ value, input, share, profile }, index) => {
+                        // Wide-gamut colors go into the palette as their exact Display-P3 value
+                        const color = input ?? value
+                        return (
                           <div
-                            className="w-6 h-6 rounded border border-gray-200"
-                            style={{ backgroundColor: color }}
-                          />
-                          <span className="text-xs font-mono flex-1">{color}</span>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => addExtractedColor(color)}
-                            className="h-6 px-2 text-xs"
+                            key={index}
+                            className={`flex items-center gap-2 rounded ${highlightedColor === index ? "bg-gray-100" : ""}`}
+                            onMouseEnter={() => setHighlightedColor(index)}
+                            onMouseLeave={() => setHighlightedColor(null)}
                           >
-                            Add
-                          </Button>
-                        </div>
-                      ))}
+                            <ColorSwatch
+                              className="w-6 h-6 rounded border border-gray-200 cursor-grab active:cursor-grabbing"
+                              color={color}
+                              draggable
+                              onDragStart={(e) => {
+                                e.dataTransfer.setData(COLOR_DRAG_TYPE, color)
+                                e.dataTransfer.effectAllowed = "copy"
+                              }}
+                              onDragEnd={() => setDropTargetIndex(null)}
+                              title="Drag onto a palette row"
+                            />
+                            <div className="flex-1 min-w-0">
+                              <div className="text-xs font-mono" title={input}>
+                                {value}
+                                {input && <span className="ml-1 text-[10px] text-purple-600">P3</span>}
+                              </div>
+                              {profile && <div className="text-[10px] text-gray-500">{PROFILE_LABELS[profile]}</div>}
+                            </div>
+                            {paletteMatches[index] && (
+                              <Badge
+                                variant="outline"
+                                className="px-1 py-0 text-[10px] font-normal text-amber-700 border-amber-300"
+                                title={`ΔE ${paletteMatches[index].distance.toFixed(1)} from row ${paletteMatches[index].index + 1}`}
+                              >
+                                ≈ row {paletteMatches[index].index + 1}
+                              </Badge>
+                            )}
+                            <span className="text-xs text-gray-500 tabular-nums">{(share * 100).toFixed(1)}%</span>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => addExtractedColor(color)}
+                              className="h-6 px-2 text-xs"
+                            >
+                              Add
+                            </Button>
+                          </div>
+                        )
+                      })}
+                    </div>
+                    {nearDuplicateCount > 0 && (
+                      <p className="text-xs text-amber-700">
+                        {nearDuplicateCount === 1 ? "1 color is" : `${nearDuplicateCount} colors are`} within ΔE{" "}
+                        {extraction.mergeThreshold} of colors already in the palette.
+                      </p>
+                    )}
+                    <div className={nearDuplicateCount > 0 ? "grid grid-cols-2 gap-2" : undefined}>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => addColors(extractedColors.map(({ value, input }) => input ?? value))}
+                        className="w-full"
+                      >
+                        Add All Colors
+                      </Button>
+                      {nearDuplicateCount > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            addColors(
+                              extractedColors.filter((_, i) => !paletteMatches[i]).map(({ value, input }) => input ?? value),
+                            )
+                          }
+                          disabled={nearDuplicateCount === extractedColors.length}
+                          className="w-full"
+                        >
+                          Add Distinct Only
+                        </Button>
+                      )}
                     </div>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      onClick={() => {
-                        extractedColors.forEach((color) => addExtractedColor(color))
-                      }}
-                      className="w-full"
-                    >
-                      Add All Colors
-                    </Button>
                   </div>
                 )}
-
-                <canvas ref={canvasRef} className="hidden" />
               </CardContent>
             </Card>
           </div>
@@ -0,0 +1,63 @@
+"use client"
+
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ColorSwatch } from "@/components/color-swatch"
+import { SCALE_CURVES, relativeLuminance, parseColor, type ScaleCurve, type ScaleStop } from "@/lib/color"
+
+interface ColorScaleStripProps {
+  stops: ScaleStop[]
+  curve: ScaleCurve
+  onCurveChange: (curve: ScaleCurve) => void
+  onRemove: () => void
+  onCopy: (value: string) => void
+}
+
+export function ColorScaleStrip({ stops, curve, onCurveChange, onRemove, onCopy }: ColorScaleStripProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-xs font-medium text-gray-600">Scale</span>
+        <Select value={curve} onValueChange={(value) => onCurveChange(value as ScaleCurve)}>
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SCALE_CURVES.map(({ id, label }) => (
+              <SelectItem key={id} value={id} className="text-xs">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="ghost" onClick={onRemove} className="ml-auto h-7 w-7 p-0" aria-label="Remove scale">
+          <X className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="flex overflow-hidden rounded border border-gray-200">
+        {stops.map(({ step, value }) => {
+          const color = parseColor(value)
+          const isLight = color ? relativeLuminance(color) > 0.35 : true
+          return (
+            <button
+              key={step}
+              type="button"
+              onClick={() => onCopy(value)}
+              title={`${step}: ${value}`}
+              className="flex-1"
+            >
+              <ColorSwatch color={value} className="h-12">
+                <span
+                  className={`relative flex h-full flex-col items-center justify-end pb-1 text-[10px] font-mono ${isLight ? "text-gray-900" : "text-white"}`}
+                >
+                  {step}
+                </span>
+              </ColorSwatch>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
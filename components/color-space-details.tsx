@@ -0,0 +1,91 @@
+"use client"
+
+import { useState } from "react"
+import { Input } from "@/components/ui/input"
+import { COLOR_SPACES, parseColor, round, type ChannelSpec, type Color, type ColorSpaceSpec } from "@/lib/color"
+
+interface ColorSpaceDetailsProps {
+  /** Slot input, parsed as is so edits keep colors outside sRGB instead of the clipped hex. */
+  input: string
+  onChange: (color: Color) => void
+}
+
+export function ColorSpaceDetails({ input, onChange }: ColorSpaceDetailsProps) {
+  const color = parseColor(input)
+  if (!color) return null
+
+  return (
+    <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+      {COLOR_SPACES.map((space) => (
+        <SpaceRow key={space.id} space={space} color={color} onChange={onChange} />
+      ))}
+    </div>
+  )
+}
+
+function SpaceRow({ space, color, onChange }: { space: ColorSpaceSpec; color: Color; onChange: (color: Color) => void }) {
+  const values = space.to(color)
+
+  const commit = (key: string, next: number) => {
+    onChange(space.from({ ...values, [key]: next }, color.alpha))
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-12 shrink-0 text-xs font-medium text-gray-600">{space.label}</span>
+      <div className="flex flex-1 gap-1">
+        {space.channels.map((channel) => (
+          <ChannelInput
+            key={channel.key}
+            channel={channel}
+            value={values[channel.key]}
+            onCommit={(next) => commit(channel.key, next)}
+          />
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function ChannelInput({
+  channel,
+  value,
+  onCommit,
+}: {
+  channel: ChannelSpec
+  value: number
+  onCommit: (value: number) => void
+}) {
+  // Hold the text while typing so re-deriving from the input doesn't fight the cursor
+  const [draft, setDraft] = useState<string | null>(null)
+
+  const commitDraft = () => {
+    if (draft === null) return
+    const parsed = parseFloat(draft)
+    if (Number.isFinite(parsed)) {
+      onCommit(Math.max(channel.min, Math.min(channel.max, parsed)))
+    }
+    setDraft(null)
+  }
+
+  return (
+    <label className="flex min-w-0 flex-1 items-center gap-1" title={channel.unit ? `${channel.label} (${channel.unit})` : channel.label}>
+      <span className="text-[10px] text-gray-500">{channel.label}</span>
+      <Input
+        type="number"
+        inputMode="decimal"
+        min={channel.min}
+        max={channel.max}
+        step={channel.step}
+        value={draft ?? String(round(value, channel.digits))}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commitDraft}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") commitDraft()
+          if (e.key === "Escape") setDraft(null)
+        }}
+        className="h-7 min-w-0 px-1 text-xs font-mono"
+      />
+    </label>
+  )
+}
@@ -0,0 +1,22 @@
+import * as React from "react"
+
+import { cn } from "@/lib/utils"
+
+const CHECKERBOARD: React.CSSProperties = {
+  backgroundImage: "conic-gradient(#e5e7eb 25%, #ffffff 0 50%, #e5e7eb 0 75%, #ffffff 0)",
+  backgroundSize: "8px 8px",
+}
+
+export interface ColorSwatchProps extends React.HTMLAttributes<HTMLDivElement> {
+  /** Any CSS color; translucent colors show the checkerboard through them. */
+  color?: string
+}
+
+export function ColorSwatch({ color, className, style, children, ...props }: ColorSwatchProps) {
+  return (
+    <div className={cn("relative overflow-hidden", className)} style={{ ...CHECKERBOARD, ...style }} {...props}>
+      <div className="absolute inset-0" style={{ backgroundColor: color }} />
+      {children}
+    </div>
+  )
+}
@@ -0,0 +1,210 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import { FixContrastPopover } from "@/components/fix-contrast-popover"
+import { apcaContrast, contrastRatio, parseColor, round, wcagLevels, type WcagResult } from "@/lib/color"
+import { cn } from "@/lib/utils"
+
+export interface ContrastSwatch {
+  /** Palette row the color lives in. */
+  index: number
+  value: string
+}
+
+interface ContrastPair {
+  foreground: ContrastSwatch
+  background: ContrastSwatch
+  ratio: number
+  apca: number
+  levels: WcagResult
+}
+
+const LEVEL_LABELS: { key: keyof WcagResult; label: string }[] = [
+  { key: "aaNormal", label: "AA" },
+  { key: "aaLarge", label: "AA+" },
+  { key: "aaaNormal", label: "AAA" },
+  { key: "aaaLarge", label: "AAA+" },
+]
+
+interface ContrastMatrixProps {
+  swatches: ContrastSwatch[]
+  /** Replaces a palette row with a contrast-fixed color. */
+  onReplace: (index: number, value: string) => void
+}
+
+export function ContrastMatrix({ swatches, onReplace }: ContrastMatrixProps) {
+  const [onlyFailing, setOnlyFailing] = useState(false)
+
+  const pairs = useMemo(() => {
+    const result = new Map<string, ContrastPair>()
+    for (const foreground of swatches) {
+      for (const background of swatches) {
+        if (foreground.index === background.index) continue
+        const fg = parseColor(foreground.value)
+        const bg = parseColor(background.value)
+        if (!fg || !bg) continue
+        const ratio = contrastRatio(fg, bg)
+        result.set(`${foreground.index}:${background.index}`, {
+          foreground,
+          background,
+          ratio,
+          apca: apcaContrast(fg, bg),
+          levels: wcagLevels(ratio),
+        })
+      }
+    }
+    return result
+  }, [swatches])
+
+  const failingPairs = Array.from(pairs.values()).filter((pair) => !pair.levels.aaNormal)
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg">Contrast</CardTitle>
+        <div className="flex items-center gap-2">
+          <Switch id="only-failing" checked={onlyFailing} onCheckedChange={setOnlyFailing} />
+          <Label htmlFor="only-failing" className="text-sm">
+            Only failing pairs
+          </Label>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {swatches.length < 2 ? (
+          <p className="text-sm text-gray-500">Add at least two valid colors to compare contrast.</p>
+        ) : onlyFailing ? (
+          <FailingList pairs={failingPairs} onReplace={onReplace} />
+        ) : (
+          <div className="overflow-x-auto">
+            <p className="mb-2 text-xs text-gray-500">
+              Rows are text colors, columns are backgrounds. AA+ and AAA+ are the large-text levels. Click a
+              failing pair to fix it.
+            </p>
+            <table className="border-separate border-spacing-1 text-xs">
+              <thead>
+                <tr>
+                  <th />
+                  {swatches.map((background) => (
+                    <th key={background.index} className="font-medium text-gray-600">
+                      {background.index + 1}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {swatches.map((foreground) => (
+                  <tr key={foreground.index}>
+                    <th className="pr-1 font-medium text-gray-600">{foreground.index + 1}</th>
+                    {swatches.map((background) => {
+                      const pair = pairs.get(`${foreground.index}:${background.index}`)
+                      return (
+                        <td key={background.index} className="p-0">
+                          {pair ? (
+                            <PairCell pair={pair} onReplace={onReplace} />
+                          ) : (
+                            <div className="h-full min-w-24 rounded bg-gray-100" />
+                          )}
+                        </td>
+                      )
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function PairCell({ pair, onReplace }: { pair: ContrastPair; onReplace: ContrastMatrixProps["onReplace"] }) {
+  const cell = (
+    <div
+      className={cn(
+        "min-w-24 rounded border border-gray-200 p-1.5 text-left",
+        !pair.levels.aaNormal && "cursor-pointer hover:ring-2 hover:ring-gray-300",
+      )}
+      style={{ backgroundColor: pair.background.value, color: pair.foreground.value }}
+      title={`${pair.foreground.value} on ${pair.background.value}`}
+    >
+      <div className="text-base font-semibold leading-none">Aa</div>
+      <div className="mt-1 rounded bg-white/90 px-1 py-0.5 text-gray-900">
+        <div className="font-mono">
+          {round(pair.ratio, 2)}:1 · Lc {round(pair.apca, 1)}
+        </div>
+        <LevelBadges levels={pair.levels} />
+      </div>
+    </div>
+  )
+
+  if (pair.levels.aaNormal) return cell
+
+  return (
+    <FixContrastPopover foreground={pair.foreground} background={pair.background} onReplace={onReplace}>
+      <button type="button" className="block w-full" aria-label="Fix contrast">
+        {cell}
+      </button>
+    </FixContrastPopover>
+  )
+}
+
+function LevelBadges({ levels }: { levels: WcagResult }) {
+  return (
+    <div className="flex gap-0.5">
+      {LEVEL_LABELS.map(({ key, label }) => (
+        <span
+          key={key}
+          className={cn(
+            "rounded px-0.5 text-[9px] font-semibold",
+            levels[key] ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800",
+          )}
+        >
+          {label}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+function FailingList({ pairs, onReplace }: { pairs: ContrastPair[]; onReplace: ContrastMatrixProps["onReplace"] }) {
+  if (pairs.length === 0) {
+    return <p className="text-sm text-gray-500">Every pair passes WCAG AA for normal text.</p>
+  }
+
+  return (
+    <div className="space-y-1">
+      {pairs.map((pair) => (
+        <div
+          key={`${pair.foreground.index}:${pair.background.index}`}
+          className="flex items-center gap-3 rounded border border-gray-200 p-2 text-xs"
+        >
+          <div
+            className="flex h-8 w-12 shrink-0 items-center justify-center rounded border border-gray-200 text-sm font-semibold"
+            style={{ backgroundColor: pair.background.value, color: pair.foreground.value }}
+          >
+            Aa
+          </div>
+          <div className="flex-1">
+            <div>
+              Row {pair.foreground.index + 1} on row {pair.background.index + 1}
+            </div>
+            <div className="font-mono text-gray-600">
+              {round(pair.ratio, 2)}:1 · Lc {round(pair.apca, 1)}
+            </div>
+          </div>
+          <LevelBadges levels={pair.levels} />
+          <FixContrastPopover foreground={pair.foreground} background={pair.background} onReplace={onReplace}>
+            <Button size="sm" variant="outline" className="h-7 px-2 text-xs">
+              Fix contrast
+            </Button>
+          </FixContrastPopover>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import { useMemo, useState, type ReactNode } from "react"
+import { Copy, Download } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import {
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMATS,
+  SWATCH_MODELS,
+  SWATCH_TYPES,
+  downloadFile,
+  exportFileName,
+  getExportFormat,
+  type ExportFormat,
+  type ExportOptions,
+  type PortablePalette,
+  type SwatchModel,
+  type SwatchType,
+} from "@/lib/formats"
+
+// Binary formats preview only the start of the file
+const PREVIEW_BYTES = 512
+
+/** Offset, hex bytes and printable ASCII, 16 bytes per line. */
+function hexDump(data: Uint8Array): string {
+  const lines: string[] = []
+  for (let offset = 0; offset < Math.min(data.length, PREVIEW_BYTES); offset += 16) {
+    const row = Array.from(data.subarray(offset, offset + 16))
+    const hex = row.map((byte) => byte.toString(16).padStart(2, "0")).join(" ")
+    const text = row.map((byte) => (byte >= 0x20 && byte < 0x7f ? String.fromCharCode(byte) : ".")).join("")
+    lines.push(`${offset.toString(16).padStart(8, "0")}  ${hex.padEnd(47)}  ${text}`)
+  }
+  if (data.length > PREVIEW_BYTES) lines.push(`… ${data.length - PREVIEW_BYTES} more bytes`)
+  return lines.join("\n")
+}
+
+interface ExportDialogProps {
+  palette: PortablePalette
+  onPaletteNameChange: (name: string) => void
+  onCopy: (formatLabel: string) => void
+  onCopyFailed: (message: string) => void
+  onDownload: (fileName: string) => void
+  /** Element that opens the dialog. */
+  children: ReactNode
+}
+
+/** Picks an export target, previews the generated code and copies or downloads it. */
+export function ExportDialog({
+  palette,
+  onPaletteNameChange,
+  onCopy,
+  onCopyFailed,
+  onDownload,
+  children,
+}: ExportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [formatId, setFormatId] = useState<ExportFormat>("css")
+  const [options, setOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS)
+  const format = getExportFormat(formatId)
+  // Generated only while open, since zipped formats are not cheap to rebuild on every palette edit
+  const output = useMemo(() => (open ? format.write(palette, options) : null), [open, format, palette, options])
+  const preview = useMemo(() => (output instanceof Uint8Array ? hexDump(output) : (output ?? "")), [output])
+  const binary = output instanceof Uint8Array
+  const empty = palette.colors.length === 0
+
+  const copy = async () => {
+    if (typeof output !== "string") return
+    try {
+      await navigator.clipboard.writeText(output)
+      onCopy(format.label)
+    } catch (error) {
+      onCopyFailed(error instanceof Error ? error.message : "The clipboard is not available")
+    }
+  }
+
+  const download = () => {
+    if (output === null) return
+    const fileName = exportFileName(palette, format)
+    downloadFile(output, fileName, format.mimeType)
+    onDownload(fileName)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Export Palette</DialogTitle>
+          <DialogDescription>
+            {empty
+              ? "Add some colors to the palette first."
+              : `${palette.colors.length} color${palette.colors.length === 1 ? "" : "s"}, with any generated scales.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-2">
+          <Input
+            value={palette.name}
+            onChange={(e) => onPaletteNameChange(e.target.value)}
+            placeholder="Palette name"
+            aria-label="Palette name"
+            className="h-9"
+          />
+          <Select value={formatId} onValueChange={(value) => setFormatId(value as ExportFormat)}>
+            <SelectTrigger className="h-9" aria-label="Export format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPORT_FORMATS.map(({ id, label }) => (
+                <SelectItem key={id} value={id}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {format.options && (
+          <div className="grid grid-cols-2 gap-2">
+            {format.options.includes("swatchModel") && (
+              <Select
+                value={options.swatchModel}
+                onValueChange={(value) => setOptions({ ...options, swatchModel: value as SwatchModel })}
+              >
+                <SelectTrigger className="h-9" aria-label="Color model">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SWATCH_MODELS.map(({ id, label }) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            {format.options.includes("swatchType") && (
+              <Select
+                value={options.swatchType}
+                onValueChange={(value) => setOptions({ ...options, swatchType: value as SwatchType })}
+              >
+                <SelectTrigger className="h-9" aria-label="Swatch type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SWATCH_TYPES.map(({ id, label }) => (
+                    <SelectItem key={id} value={id}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+        )}
+
+        <pre className="max-h-80 overflow-auto rounded border border-gray-200 bg-gray-50 p-3 text-xs font-mono">
+          <code>{preview}</code>
+        </pre>
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={copy} disabled={empty || binary}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button size="sm" onClick={download} disabled={empty}>
+            <Download className="h-4 w-4 mr-2" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,88 @@
+"use client"
+
+import { Pie, PieChart, Sector } from "recharts"
+import type { PieSectorDataItem } from "recharts/types/polar/Pie"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import type { ExtractedColor } from "@/lib/extract"
+
+// Pixels in clusters that were merged away or fell past the color count
+const OTHER_KEY = "other"
+const OTHER_COLOR = "#e5e7eb"
+// Remainders smaller than this are rounding, not a real "other" slice
+const MIN_OTHER_SHARE = 0.005
+
+interface ExtractionSummaryProps {
+  colors: ExtractedColor[]
+  activeIndex: number | null
+  onActiveChange: (index: number | null) => void
+}
+
+const percent = (share: number) => `${(share * 100).toFixed(1)}%`
+
+const renderActiveShape = ({ outerRadius = 0, ...props }: PieSectorDataItem) => (
+  <Sector {...props} outerRadius={outerRadius + 4} />
+)
+
+/** Each extracted color's share of the sampled pixels, as a proportional bar and a donut chart. */
+export function ExtractionSummary({ colors, activeIndex, onActiveChange }: ExtractionSummaryProps) {
+  const other = 1 - colors.reduce((sum, { share }) => sum + share, 0)
+  const slices = [
+    ...colors.map(({ value, share }, index) => ({ key: `color-${index}`, label: value, share, fill: value })),
+    ...(other >= MIN_OTHER_SHARE ? [{ key: OTHER_KEY, label: "Other", share: other, fill: OTHER_COLOR }] : []),
+  ]
+  const config = Object.fromEntries(slices.map(({ key, label, fill }) => [key, { label, color: fill }])) satisfies ChartConfig
+  const activate = (index: number | null) => onActiveChange(index !== null && index < colors.length ? index : null)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex h-4 overflow-hidden rounded border border-gray-200" onMouseLeave={() => activate(null)}>
+        {slices.map(({ key, label, share, fill }, index) => (
+          <div
+            key={key}
+            className="h-full transition-opacity"
+            style={{
+              width: `${share * 100}%`,
+              backgroundColor: fill,
+              opacity: activeIndex === null || activeIndex === index ? 1 : 0.35,
+            }}
+            title={`${label} · ${percent(share)}`}
+            onMouseEnter={() => activate(index)}
+          />
+        ))}
+      </div>
+
+      <ChartContainer config={config} className="mx-auto aspect-square h-40">
+        <PieChart>
+          <ChartTooltip
+            cursor={false}
+            content={
+              <ChartTooltipContent
+                hideLabel
+                nameKey="key"
+                formatter={(value, _name, item) => (
+                  <div className="flex w-full items-center justify-between gap-2">
+                    <span className="font-mono">{item.payload.label}</span>
+                    <span className="tabular-nums">{percent(Number(value))}</span>
+                  </div>
+                )}
+              />
+            }
+          />
+          <Pie
+            data={slices}
+            dataKey="share"
+            nameKey="key"
+            innerRadius={40}
+            outerRadius={64}
+            strokeWidth={1}
+            isAnimationActive={false}
+            activeIndex={activeIndex ?? undefined}
+            activeShape={renderActiveShape}
+            onMouseEnter={(_, index) => activate(index)}
+            onMouseLeave={() => activate(null)}
+          />
+        </PieChart>
+      </ChartContainer>
+    </div>
+  )
+}
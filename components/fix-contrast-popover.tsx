@@ -0,0 +1,131 @@
+"use client"
+
+import { useMemo, useState, type ReactNode } from "react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { ColorSwatch } from "@/components/color-swatch"
+import { WCAG_THRESHOLDS, contrastRatio, fixContrast, formatHex, parseColor, round, type ContrastRole } from "@/lib/color"
+import type { ContrastSwatch } from "@/components/contrast-matrix"
+
+const TARGETS = [
+  { label: "AA large (3:1)", ratio: WCAG_THRESHOLDS.aaLarge },
+  { label: "AA (4.5:1)", ratio: WCAG_THRESHOLDS.aaNormal },
+  { label: "AAA (7:1)", ratio: WCAG_THRESHOLDS.aaaNormal },
+]
+
+interface FixContrastPopoverProps {
+  foreground: ContrastSwatch
+  background: ContrastSwatch
+  onReplace: (index: number, value: string) => void
+  children: ReactNode
+}
+
+export function FixContrastPopover({ foreground, background, onReplace, children }: FixContrastPopoverProps) {
+  const [open, setOpen] = useState(false)
+  const [target, setTarget] = useState<number>(WCAG_THRESHOLDS.aaNormal)
+  const [role, setRole] = useState<ContrastRole>("text")
+
+  const adjusted = role === "text" ? foreground : background
+  const other = role === "text" ? background : foreground
+  // Only search for a fix while the popover is open
+  const proposal = useMemo(() => {
+    if (!open) return null
+    const adjustedColor = parseColor(adjusted.value)
+    const otherColor = parseColor(other.value)
+    const proposed = adjustedColor && otherColor ? fixContrast(adjustedColor, otherColor, target, role) : null
+    if (!proposed || !otherColor) return null
+    return {
+      hex: formatHex(proposed),
+      ratio: role === "text" ? contrastRatio(proposed, otherColor) : contrastRatio(otherColor, proposed),
+    }
+  }, [open, adjusted.value, other.value, target, role])
+  const proposedHex = proposal?.hex ?? null
+  const proposedRatio = proposal?.ratio ?? null
+
+  const preview = (text: string, bg: string) => (
+    <div
+      className="flex h-10 flex-1 items-center justify-center rounded border border-gray-200 text-sm font-semibold"
+      style={{ color: text, backgroundColor: bg }}
+    >
+      Aa
+    </div>
+  )
+
+  const apply = () => {
+    if (!proposedHex) return
+    onReplace(adjusted.index, proposedHex)
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-72 space-y-3">
+        <div className="text-sm font-medium">
+          Fix row {foreground.index + 1} on row {background.index + 1}
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-gray-600">Target</label>
+          <Select value={String(target)} onValueChange={(value) => setTarget(Number(value))}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TARGETS.map(({ label, ratio }) => (
+                <SelectItem key={ratio} value={String(ratio)} className="text-xs">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-gray-600">Adjust</label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={role}
+            onValueChange={(value) => value && setRole(value as ContrastRole)}
+            className="justify-start"
+          >
+            <ToggleGroupItem value="text" className="text-xs">
+              Text
+            </ToggleGroupItem>
+            <ToggleGroupItem value="background" className="text-xs">
+              Background
+            </ToggleGroupItem>
+          </ToggleGroup>
+        </div>
+
+        {proposedHex ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2">
+              {preview(foreground.value, background.value)}
+              <span className="text-gray-400">→</span>
+              {role === "text" ? preview(proposedHex, background.value) : preview(foreground.value, proposedHex)}
+            </div>
+            <div className="flex items-center gap-2 text-xs">
+              <ColorSwatch className="h-5 w-5 rounded border border-gray-200" color={proposedHex} />
+              <span className="font-mono">
+                {adjusted.value} → {proposedHex}
+              </span>
+              {proposedRatio !== null && <span className="ml-auto font-mono">{round(proposedRatio, 2)}:1</span>}
+            </div>
+            <Button size="sm" className="w-full" onClick={apply}>
+              Replace row {adjusted.index + 1}
+            </Button>
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500">
+            No lightness of this hue and chroma reaches {target}:1. Try adjusting the other color.
+          </p>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,90 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { ColorSwatch } from "@/components/color-swatch"
+import {
+  HARMONY_RULES,
+  formatHex,
+  generateHarmony,
+  parseColor,
+  type HarmonyRule,
+  type HarmonySpace,
+} from "@/lib/color"
+
+interface HarmonyPanelProps {
+  baseColor: string
+  onPick: (color: string) => void
+  onFillEmpty: (colors: string[]) => void
+  onReplacePalette: (colors: string[]) => void
+}
+
+export function HarmonyPanel({ baseColor, onPick, onFillEmpty, onReplacePalette }: HarmonyPanelProps) {
+  const [rule, setRule] = useState<HarmonyRule>("complementary")
+  const [space, setSpace] = useState<HarmonySpace>("oklch")
+
+  const base = parseColor(baseColor)
+  const harmony = base ? generateHarmony(base, rule, space).map(formatHex) : []
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Harmony:</label>
+      <div className="flex items-center gap-2">
+        <Select value={rule} onValueChange={(value) => setRule(value as HarmonyRule)}>
+          <SelectTrigger className="h-8 flex-1 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {HARMONY_RULES.map(({ id, label }) => (
+              <SelectItem key={id} value={id} className="text-xs">
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={space}
+          onValueChange={(value) => value && setSpace(value as HarmonySpace)}
+        >
+          <ToggleGroupItem value="oklch" className="h-8 px-2 text-xs">
+            OKLCH
+          </ToggleGroupItem>
+          <ToggleGroupItem value="hsl" className="h-8 px-2 text-xs">
+            HSL
+          </ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {harmony.length > 0 && (
+        <>
+          <div className="flex overflow-hidden rounded border border-gray-200">
+            {harmony.map((color, index) => (
+              <button
+                key={`${color}-${index}`}
+                type="button"
+                className="flex-1"
+                onClick={() => onPick(color)}
+                title={color}
+              >
+                <ColorSwatch color={color} className="h-8" />
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" size="sm" onClick={() => onFillEmpty(harmony)}>
+              Fill Empty Slots
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => onReplacePalette(harmony)}>
+              Replace Palette
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
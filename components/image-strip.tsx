@@ -0,0 +1,66 @@
+"use client"
+
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { X } from "lucide-react"
+import type { SourceImage } from "@/lib/extract"
+
+interface ImageStripProps {
+  images: SourceImage[]
+  activeId: string | null
+  onSelect: (id: string) => void
+  onRemove: (id: string) => void
+  /** Whether every image feeds one palette, rather than only the active one. */
+  combine: boolean
+  onCombineChange: (combine: boolean) => void
+}
+
+export function ImageStrip({ images, activeId, onSelect, onRemove, combine, onCombineChange }: ImageStripProps) {
+  if (images.length === 0) return null
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {images.map((image) => (
+          <div key={image.id} className="group relative shrink-0">
+            <button
+              type="button"
+              onClick={() => onSelect(image.id)}
+              className={`block h-12 w-12 overflow-hidden rounded border-2 ${
+                image.id === activeId ? "border-blue-500" : "border-transparent"
+              }`}
+              title={image.name}
+            >
+              <img src={image.thumbnail} alt={image.name} className="h-full w-full object-cover" />
+            </button>
+            <button
+              type="button"
+              onClick={() => onRemove(image.id)}
+              className="absolute -right-1 -top-1 hidden h-4 w-4 items-center justify-center rounded-full bg-white text-gray-700 shadow group-hover:flex"
+              aria-label={`Remove ${image.name}`}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {images.length > 1 && (
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={combine ? "combined" : "separate"}
+          onValueChange={(value) => value && onCombineChange(value === "combined")}
+          className="justify-start"
+        >
+          <ToggleGroupItem value="separate" className="h-7 px-2 text-xs">
+            Per image
+          </ToggleGroupItem>
+          <ToggleGroupItem value="combined" className="h-7 px-2 text-xs">
+            Combined
+          </ToggleGroupItem>
+        </ToggleGroup>
+      )}
+    </div>
+  )
+}
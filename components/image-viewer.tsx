@@ -0,0 +1,411 @@
+"use client"
+
+import { useEffect, useRef, useState, type MouseEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { Slider } from "@/components/ui/slider"
+import { Eraser, Lasso, Paintbrush, Pipette, Square, ZoomIn, ZoomOut } from "lucide-react"
+import { ColorSwatch } from "@/components/color-swatch"
+import { RegionOverlay, type RegionTool } from "@/components/region-overlay"
+import { formatHex, fromRgb, parseColor } from "@/lib/color"
+import {
+  EMPTY_SELECTION,
+  UNASSIGNED,
+  applyMask,
+  assignPixels,
+  isSelectionEmpty,
+  rasterizeSelection,
+  type RegionSelection,
+} from "@/lib/extract"
+
+// The native EyeDropper API is not in TypeScript's DOM typings yet
+interface NativeEyeDropper {
+  open: () => Promise<{ sRGBHex: string }>
+}
+
+declare global {
+  interface Window {
+    EyeDropper?: new () => NativeEyeDropper
+  }
+}
+
+/** Where a sampled color goes: the picker, or a palette row by index. */
+export type SampleTarget = "picker" | number
+
+type ViewerTool = "pick" | RegionTool
+
+const TOOLS: { id: ViewerTool; label: string; icon: typeof Pipette }[] = [
+  { id: "pick", label: "Sample a color", icon: Pipette },
+  { id: "rect", label: "Select a rectangle", icon: Square },
+  { id: "lasso", label: "Select a freehand area", icon: Lasso },
+  { id: "mask", label: "Paint areas to exclude", icon: Paintbrush },
+]
+
+const ZOOM_LEVELS = [1, 2, 4, 8, 16]
+const SAMPLE_SIZES = [1, 3, 5]
+// Loupe shows an 11×11 pixel neighbourhood, each pixel drawn as a 9px square
+const LOUPE_PIXELS = 11
+const LOUPE_SCALE = 9
+// Longest side of the grid used to find the pixels behind a highlighted color
+const HIGHLIGHT_SIZE = 400
+
+interface Hover {
+  x: number
+  y: number
+  clientX: number
+  clientY: number
+  color: string
+}
+
+interface ImageViewerProps {
+  image: ImageBitmap | null
+  rowCount: number
+  onSample: (color: string, target: SampleTarget) => void
+  /** Area extraction reads from; edited with the region tools. */
+  selection: RegionSelection
+  onSelectionChange: (selection: RegionSelection) => void
+  /** Extracted colors, and which of them to reveal on the image. */
+  clusterColors: string[]
+  highlightIndex: number | null
+}
+
+interface PixelLabels {
+  image: ImageBitmap
+  colors: string[]
+  selection: RegionSelection
+  width: number
+  height: number
+  labels: Uint8Array
+}
+
+/** Averages a size×size square centred on (x, y), clipped to the image. */
+function sampleAt(ctx: CanvasRenderingContext2D, x: number, y: number, size: number): string {
+  const radius = (size - 1) / 2
+  const left = Math.max(0, x - radius)
+  const top = Math.max(0, y - radius)
+  const right = Math.min(ctx.canvas.width, x + radius + 1)
+  const bottom = Math.min(ctx.canvas.height, y + radius + 1)
+  const { data } = ctx.getImageData(left, top, right - left, bottom - top)
+
+  let r = 0
+  let g = 0
+  let b = 0
+  let a = 0
+  for (let offset = 0; offset < data.length; offset += 4) {
+    r += data[offset]
+    g += data[offset + 1]
+    b += data[offset + 2]
+    a += data[offset + 3]
+  }
+  const count = data.length / 4
+  return formatHex(fromRgb({ r: r / count, g: g / count, b: b / count }, a / count / 255))
+}
+
+/** Labels a downscaled copy of the image with the nearest cluster color of each selected pixel. */
+function labelPixels(image: ImageBitmap, colors: string[], selection: RegionSelection): PixelLabels {
+  const ratio = Math.min(1, HIGHLIGHT_SIZE / Math.max(image.width, image.height))
+  const width = Math.max(1, Math.round(image.width * ratio))
+  const height = Math.max(1, Math.round(image.height * ratio))
+  const ctx = new OffscreenCanvas(width, height).getContext("2d")
+  if (!ctx) return { image, colors, selection, width, height, labels: new Uint8Array(width * height).fill(UNASSIGNED) }
+
+  ctx.drawImage(image, 0, 0, width, height)
+  const { data } = ctx.getImageData(0, 0, width, height)
+  if (!isSelectionEmpty(selection)) applyMask(data, rasterizeSelection(selection, width, height))
+  const parsed = colors.map((value) => parseColor(value) ?? fromRgb({ r: 0, g: 0, b: 0 }))
+  return { image, colors, selection, width, height, labels: assignPixels(data, parsed) }
+}
+
+export function ImageViewer({
+  image,
+  rowCount,
+  onSample,
+  selection,
+  onSelectionChange,
+  clusterColors,
+  highlightIndex,
+}: ImageViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const loupeRef = useRef<HTMLCanvasElement>(null)
+  const highlightRef = useRef<HTMLCanvasElement>(null)
+  // Labelled only once something is highlighted, then reused until the image or colors change
+  const labelsRef = useRef<PixelLabels | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [sampleSize, setSampleSize] = useState(1)
+  const [target, setTarget] = useState<SampleTarget>("picker")
+  const [hover, setHover] = useState<Hover | null>(null)
+  const [tool, setTool] = useState<ViewerTool>("pick")
+  // Percent of the image's longer side
+  const [brushSize, setBrushSize] = useState(3)
+  const [hasNativeEyeDropper, setHasNativeEyeDropper] = useState(false)
+
+  useEffect(() => setHasNativeEyeDropper(typeof window.EyeDropper === "function"), [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !image) return
+    canvas.width = image.width
+    canvas.height = image.height
+    canvas.getContext("2d", { willReadFrequently: true })?.drawImage(image, 0, 0)
+    setZoom(1)
+  }, [image])
+
+  // A row that has since been deleted falls back to the picker
+  useEffect(() => {
+    if (typeof target === "number" && target >= rowCount) setTarget("picker")
+  }, [target, rowCount])
+
+  useEffect(() => {
+    const source = canvasRef.current
+    const loupe = loupeRef.current?.getContext("2d")
+    if (!hover || !source || !loupe) return
+    const half = (LOUPE_PIXELS - 1) / 2
+    const size = LOUPE_PIXELS * LOUPE_SCALE
+    loupe.imageSmoothingEnabled = false
+    loupe.clearRect(0, 0, size, size)
+    loupe.drawImage(source, hover.x - half, hover.y - half, LOUPE_PIXELS, LOUPE_PIXELS, 0, 0, size, size)
+
+    const inset = (half - (sampleSize - 1) / 2) * LOUPE_SCALE
+    loupe.strokeStyle = "#fff"
+    loupe.lineWidth = 3
+    loupe.strokeRect(inset, inset, sampleSize * LOUPE_SCALE, sampleSize * LOUPE_SCALE)
+    loupe.strokeStyle = "#000"
+    loupe.lineWidth = 1
+    loupe.strokeRect(inset, inset, sampleSize * LOUPE_SCALE, sampleSize * LOUPE_SCALE)
+  }, [hover, sampleSize])
+
+  useEffect(() => {
+    const canvas = highlightRef.current
+    if (!canvas || !image || highlightIndex === null) return
+
+    let cached = labelsRef.current
+    if (!cached || cached.image !== image || cached.colors !== clusterColors || cached.selection !== selection) {
+      cached = labelPixels(image, clusterColors, selection)
+      labelsRef.current = cached
+    }
+
+    const { width, height, labels } = cached
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+    // Dim everything except the pixels that belong to the highlighted color
+    const shade = ctx.createImageData(width, height)
+    for (let i = 0; i < labels.length; i++) {
+      if (labels[i] !== highlightIndex) shade.data[i * 4 + 3] = 170
+    }
+    ctx.putImageData(shade, 0, 0)
+  }, [image, clusterColors, selection, highlightIndex])
+
+  const pixelAt = (event: MouseEvent<HTMLCanvasElement>) => {
+    const canvas = event.currentTarget
+    const rect = canvas.getBoundingClientRect()
+    return {
+      x: Math.min(canvas.width - 1, Math.floor(((event.clientX - rect.left) / rect.width) * canvas.width)),
+      y: Math.min(canvas.height - 1, Math.floor(((event.clientY - rect.top) / rect.height) * canvas.height)),
+    }
+  }
+
+  const handleMouseMove = (event: MouseEvent<HTMLCanvasElement>) => {
+    const ctx = event.currentTarget.getContext("2d", { willReadFrequently: true })
+    if (!ctx) return
+    const { x, y } = pixelAt(event)
+    setHover({ x, y, clientX: event.clientX, clientY: event.clientY, color: sampleAt(ctx, x, y, sampleSize) })
+  }
+
+  const handleClick = (event: MouseEvent<HTMLCanvasElement>) => {
+    const ctx = event.currentTarget.getContext("2d", { willReadFrequently: true })
+    if (!ctx) return
+    const { x, y } = pixelAt(event)
+    onSample(sampleAt(ctx, x, y, sampleSize), target)
+  }
+
+  const sampleScreen = async () => {
+    if (!window.EyeDropper) return
+    try {
+      const { sRGBHex } = await new window.EyeDropper().open()
+      const color = parseColor(sRGBHex)
+      if (color) onSample(formatHex(color), target)
+    } catch {
+      // Dismissed with Escape
+    }
+  }
+
+  if (!image && !hasNativeEyeDropper) return null
+
+  const zoomIndex = ZOOM_LEVELS.indexOf(zoom)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        {image && (
+          <ToggleGroup
+            type="single"
+            size="sm"
+            variant="outline"
+            value={tool}
+            onValueChange={(value) => {
+              if (!value) return
+              setTool(value as ViewerTool)
+              setHover(null)
+            }}
+            aria-label="Image tool"
+          >
+            {TOOLS.map(({ id, label, icon: Icon }) => (
+              <ToggleGroupItem key={id} value={id} className="h-8 w-8 p-0" title={label} aria-label={label}>
+                <Icon className="h-4 w-4" />
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        )}
+        <div className="flex-1" />
+        {image && !isSelectionEmpty(selection) && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-2 text-xs"
+            onClick={() => onSelectionChange(EMPTY_SELECTION)}
+            title="Extract from the whole image again"
+          >
+            <Eraser className="h-3 w-3 mr-1" />
+            Clear
+          </Button>
+        )}
+        {hasNativeEyeDropper && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 px-2 text-xs"
+            onClick={sampleScreen}
+            title="Pick a color from anywhere on screen"
+          >
+            <Pipette className="h-3 w-3 mr-1" />
+            Screen
+          </Button>
+        )}
+      </div>
+
+      {(tool === "pick" || !image) && (
+        <div className="flex items-center gap-2">
+          <Select
+            value={String(target)}
+            onValueChange={(value) => setTarget(value === "picker" ? "picker" : Number(value))}
+          >
+            <SelectTrigger className="h-8 flex-1 text-xs" aria-label="Send sampled color to">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="picker" className="text-xs">
+                To picker
+              </SelectItem>
+              {Array.from({ length: rowCount }, (_, index) => (
+                <SelectItem key={index} value={String(index)} className="text-xs">
+                  To row {index + 1}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {image && (
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={String(sampleSize)}
+              onValueChange={(value) => value && setSampleSize(Number(value))}
+              aria-label="Sample area"
+            >
+              {SAMPLE_SIZES.map((size) => (
+                <ToggleGroupItem key={size} value={String(size)} className="h-8 px-2 text-xs">
+                  {size === 1 ? "1px" : `${size}×${size}`}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+        </div>
+      )}
+
+      {image && tool === "mask" && (
+        <div className="flex items-center gap-2">
+          <label className="text-xs text-gray-600 shrink-0">Brush:</label>
+          <Slider value={[brushSize]} onValueChange={([value]) => setBrushSize(value)} min={1} max={15} step={1} />
+          <span className="text-xs font-mono text-gray-600 w-8 text-right">{brushSize}%</span>
+        </div>
+      )}
+
+      {image && (tool === "rect" || tool === "lasso") && (
+        <p className="text-xs text-gray-500">
+          Drag to add a region. Drag a region to move it, or select it and press Delete.
+        </p>
+      )}
+
+      {image && (
+        <div className="relative">
+          <div className="max-h-64 overflow-auto rounded border bg-gray-50">
+            <div className="relative" style={{ width: `${zoom * 100}%` }}>
+              <canvas
+                ref={canvasRef}
+                className="block w-full cursor-crosshair"
+                style={{ imageRendering: zoom > 1 ? "pixelated" : "auto" }}
+                onMouseMove={handleMouseMove}
+                onMouseLeave={() => setHover(null)}
+                onClick={handleClick}
+              />
+              {highlightIndex !== null && (
+                <canvas ref={highlightRef} className="pointer-events-none absolute inset-0 h-full w-full" />
+              )}
+              <RegionOverlay
+                selection={selection}
+                onChange={onSelectionChange}
+                tool={tool === "pick" ? null : tool}
+                brushRadius={brushSize / 100}
+                imageWidth={image.width}
+                imageHeight={image.height}
+              />
+            </div>
+          </div>
+          <div className="absolute right-1 top-1 flex gap-1">
+            <Button
+              variant="secondary"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setZoom(ZOOM_LEVELS[zoomIndex - 1])}
+              disabled={zoomIndex === 0}
+              aria-label="Zoom out"
+            >
+              <ZoomOut className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="secondary"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setZoom(ZOOM_LEVELS[zoomIndex + 1])}
+              disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+              aria-label="Zoom in"
+            >
+              <ZoomIn className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {hover && (
+        <div
+          className="pointer-events-none fixed z-50 rounded border bg-white p-1 shadow-lg"
+          style={{ left: hover.clientX + 16, top: hover.clientY + 16 }}
+        >
+          <canvas
+            ref={loupeRef}
+            width={LOUPE_PIXELS * LOUPE_SCALE}
+            height={LOUPE_PIXELS * LOUPE_SCALE}
+            className="block"
+          />
+          <div className="mt-1 flex items-center gap-1">
+            <ColorSwatch color={hover.color} className="h-3 w-3 rounded-sm border border-gray-200" />
+            <span className="text-[10px] font-mono">{hover.color}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,170 @@
+"use client"
+
+import { useRef, useState, type ReactNode } from "react"
+import { FileInput } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { ColorSwatch } from "@/components/color-swatch"
+import { IMPORT_FORMATS, importPalette, type ImportResult, type PortablePalette } from "@/lib/formats"
+
+export type ImportMode = "replace" | "append"
+
+const ACCEPT = IMPORT_FORMATS.flatMap(({ extensions }) => extensions.map((ext) => `.${ext}`)).join(",")
+
+interface ImportDialogProps {
+  onImport: (palette: PortablePalette, mode: ImportMode) => void
+  /** Element that opens the dialog. */
+  children: ReactNode
+}
+
+/**
+ * Loads a palette from a file or pasted text, detecting its format from the content,
+ * and previews it before it replaces or is appended to the current palette.
+ */
+export function ImportDialog({ onImport, children }: ImportDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [text, setText] = useState("")
+  const [source, setSource] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  // Parsing is async, so only the latest input's result is kept
+  const requestRef = useRef(0)
+
+  const load = async (fileName: string, data: Uint8Array, label: string) => {
+    const request = ++requestRef.current
+    try {
+      const imported = await importPalette(fileName, data)
+      if (request !== requestRef.current) return
+      setResult(imported)
+      setError(null)
+    } catch (err) {
+      if (request !== requestRef.current) return
+      setResult(null)
+      setError(err instanceof Error ? err.message : `${label} could not be read`)
+    }
+    setSource(label)
+  }
+
+  const reset = () => {
+    requestRef.current++
+    setText("")
+    setSource(null)
+    setResult(null)
+    setError(null)
+  }
+
+  const handleText = (value: string) => {
+    setText(value)
+    if (!value.trim()) {
+      reset()
+      return
+    }
+    load("", new TextEncoder().encode(value), "Pasted text")
+  }
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+    setText("")
+    const request = ++requestRef.current
+    let data: Uint8Array
+    try {
+      data = new Uint8Array(await file.arrayBuffer())
+    } catch {
+      if (request !== requestRef.current) return
+      setResult(null)
+      setError(`${file.name} could not be read`)
+      setSource(file.name)
+      return
+    }
+    if (request !== requestRef.current) return
+    load(file.name, data, file.name)
+  }
+
+  const confirm = (mode: ImportMode) => {
+    if (!result) return
+    onImport(result.palette, mode)
+    setOpen(false)
+    reset()
+  }
+
+  const scaleCount = result?.palette.colors.filter((color) => color.scale).length ?? 0
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        if (!next) reset()
+      }}
+    >
+      <DialogTrigger asChild>{children}</DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Palette</DialogTitle>
+          <DialogDescription>
+            Choose a palette file or paste CSS variables, a Tailwind config, a GIMP palette, JSON or hex codes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input ref={fileInputRef} type="file" accept={ACCEPT} onChange={handleFile} className="hidden" />
+        <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} className="w-fit">
+          <FileInput className="h-4 w-4 mr-2" />
+          Choose File
+        </Button>
+        <Textarea
+          value={text}
+          onChange={(e) => handleText(e.target.value)}
+          placeholder={":root {\n  --primary: #3b82f6;\n}"}
+          className="h-32 font-mono text-xs"
+          aria-label="Palette text"
+        />
+
+        {error && (
+          <p className="text-sm text-red-600">
+            {source}: {error}
+          </p>
+        )}
+        {result && (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600">
+              {result.format.label} · <span className="font-medium text-gray-900">{result.palette.name}</span> ·{" "}
+              {result.palette.colors.length} color{result.palette.colors.length === 1 ? "" : "s"}
+              {scaleCount > 0 && `, ${scaleCount} with scales`}
+            </p>
+            <div className="flex max-h-48 flex-wrap gap-1 overflow-auto">
+              {result.palette.colors.map(({ name, value }, index) => (
+                <ColorSwatch
+                  key={index}
+                  className="h-8 w-8 rounded border border-gray-200"
+                  color={value}
+                  title={`${name} · ${value}`}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" size="sm" onClick={() => confirm("append")} disabled={!result}>
+            Append
+          </Button>
+          <Button size="sm" onClick={() => confirm("replace")} disabled={!result}>
+            Replace Palette
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,297 @@
+"use client"
+
+import { useId, useRef, useState, type KeyboardEvent, type PointerEvent } from "react"
+import { X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import {
+  createRegionId,
+  rectFromCorners,
+  translateRegion,
+  type MaskStroke,
+  type Point,
+  type Region,
+  type RegionSelection,
+} from "@/lib/extract"
+
+export type RegionTool = "rect" | "lasso" | "mask"
+
+// Below these sizes a drag is treated as a stray click rather than a new region
+const MIN_RECT_SIZE = 0.01
+const MIN_LASSO_POINTS = 3
+// Freehand paths only take a new point once the pointer has moved this far
+const MIN_POINT_SPACING = 0.004
+
+type Drag =
+  | { kind: "rect"; start: Point }
+  | { kind: "lasso" }
+  | { kind: "mask" }
+  | { kind: "move"; id: string; last: Point }
+  | { kind: "resize"; id: string; anchor: Point }
+
+interface RegionOverlayProps {
+  selection: RegionSelection
+  onChange: (selection: RegionSelection) => void
+  /** Active drawing tool, or null to only display the selection. */
+  tool: RegionTool | null
+  /** Brush radius for mask strokes, as a fraction of the image's longer side. */
+  brushRadius: number
+  imageWidth: number
+  imageHeight: number
+}
+
+const toPath = (points: Point[], width: number, height: number) =>
+  points.map(({ x, y }) => `${x * width},${y * height}`).join(" ")
+
+function bounds(region: Region) {
+  if (region.kind === "rect") return region
+  const xs = region.points.map((p) => p.x)
+  const ys = region.points.map((p) => p.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+/**
+ * Draws and edits extraction regions over the image: rectangles and lassos can be drawn,
+ * moved and deleted, rectangles resized from their corner, and mask strokes painted.
+ * Edits are reported once a drag ends, so extraction re-runs per gesture rather than per move.
+ */
+export function RegionOverlay({ selection, onChange, tool, brushRadius, imageWidth, imageHeight }: RegionOverlayProps) {
+  const maskId = useId()
+  const overlayRef = useRef<HTMLDivElement>(null)
+  const dragRef = useRef<Drag | null>(null)
+  // Selection as it looks mid-drag; null when nothing is being dragged
+  const [working, setWorking] = useState<RegionSelection | null>(null)
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const shown = working ?? selection
+  const side = Math.max(imageWidth, imageHeight)
+  const selected = shown.regions.find((r) => r.id === selectedId)
+
+  const pointAt = (event: PointerEvent) => {
+    const rect = overlayRef.current!.getBoundingClientRect()
+    return {
+      x: Math.min(Math.max((event.clientX - rect.left) / rect.width, 0), 1),
+      y: Math.min(Math.max((event.clientY - rect.top) / rect.height, 0), 1),
+    }
+  }
+
+  const updateRegion = (current: RegionSelection, id: string, update: (region: Region) => Region) => ({
+    ...current,
+    regions: current.regions.map((r) => (r.id === id ? update(r) : r)),
+  })
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    const point = pointAt(event)
+    const target = event.target as Element
+
+    const handle = target.closest("[data-resize-id]")?.getAttribute("data-resize-id")
+    const hit = target.closest("[data-region-id]")?.getAttribute("data-region-id")
+
+    if (tool === "mask") {
+      dragRef.current = { kind: "mask" }
+      setWorking({ ...selection, mask: [...selection.mask, { points: [point], radius: brushRadius }] })
+    } else if (handle) {
+      const region = selection.regions.find((r) => r.id === handle)
+      if (region?.kind !== "rect") return
+      dragRef.current = { kind: "resize", id: handle, anchor: { x: region.x, y: region.y } }
+      setWorking(selection)
+    } else if (hit) {
+      setSelectedId(hit)
+      dragRef.current = { kind: "move", id: hit, last: point }
+      setWorking(selection)
+    } else {
+      const id = createRegionId()
+      const region: Region =
+        tool === "rect" ? rectFromCorners(id, point, point) : { id, kind: "lasso", points: [point] }
+      setSelectedId(id)
+      dragRef.current = tool === "rect" ? { kind: "rect", start: point } : { kind: "lasso" }
+      setWorking({ ...selection, regions: [...selection.regions, region] })
+    }
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current
+    if (!drag) return
+    const point = pointAt(event)
+    const farEnough = (last: Point) => Math.hypot(point.x - last.x, point.y - last.y) >= MIN_POINT_SPACING
+
+    if (drag.kind === "move") dragRef.current = { ...drag, last: point }
+
+    setWorking((current) => {
+      if (!current) return current
+      switch (drag.kind) {
+        case "rect":
+          return updateRegion(current, selectedId!, (region) => rectFromCorners(region.id, drag.start, point))
+        case "resize":
+          return updateRegion(current, drag.id, (region) => rectFromCorners(region.id, drag.anchor, point))
+        case "move":
+          return updateRegion(current, drag.id, (region) =>
+            translateRegion(region, point.x - drag.last.x, point.y - drag.last.y),
+          )
+        case "lasso":
+          return updateRegion(current, selectedId!, (region) =>
+            region.kind === "lasso" && farEnough(region.points[region.points.length - 1])
+              ? { ...region, points: [...region.points, point] }
+              : region,
+          )
+        case "mask": {
+          const stroke = current.mask[current.mask.length - 1]
+          if (!farEnough(stroke.points[stroke.points.length - 1])) return current
+          return { ...current, mask: [...current.mask.slice(0, -1), { ...stroke, points: [...stroke.points, point] }] }
+        }
+      }
+    })
+  }
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag || !working) return
+    setWorking(null)
+
+    // Drop shapes too small to be deliberate
+    const regions = working.regions.filter((region) => {
+      if (region.kind === "rect") return region.width >= MIN_RECT_SIZE && region.height >= MIN_RECT_SIZE
+      return region.points.length >= MIN_LASSO_POINTS
+    })
+    if (!regions.some((r) => r.id === selectedId)) setSelectedId(null)
+    // A click that moved nothing, or a shape dropped as too small, leaves the selection as it was
+    const unchanged =
+      working.mask === selection.mask &&
+      regions.length === selection.regions.length &&
+      regions.every((region, i) => region === selection.regions[i])
+    if (unchanged) return
+    onChange({ ...working, regions })
+  }
+
+  const removeRegion = (id: string) => {
+    setSelectedId(null)
+    onChange({ ...selection, regions: selection.regions.filter((r) => r.id !== id) })
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if ((event.key === "Delete" || event.key === "Backspace") && selectedId) {
+      event.preventDefault()
+      removeRegion(selectedId)
+    }
+  }
+
+  const selectedBounds = selected ? bounds(selected) : null
+  const drawStroke = ({ points, radius }: MaskStroke, index: number) =>
+    points.length === 1 ? (
+      <circle key={index} cx={points[0].x * imageWidth} cy={points[0].y * imageHeight} r={radius * side} />
+    ) : (
+      <polyline
+        key={index}
+        points={toPath(points, imageWidth, imageHeight)}
+        fill="none"
+        strokeWidth={radius * side * 2}
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      />
+    )
+
+  return (
+    <div
+      ref={overlayRef}
+      className={cn("absolute inset-0 outline-none", !tool && "pointer-events-none")}
+      style={{ touchAction: "none", cursor: tool === "mask" ? "cell" : "crosshair" }}
+      tabIndex={0}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onKeyDown={handleKeyDown}
+    >
+      <svg
+        className="absolute inset-0 h-full w-full"
+        viewBox={`0 0 ${imageWidth} ${imageHeight}`}
+        preserveAspectRatio="none"
+      >
+        {shown.regions.length > 0 && (
+          <>
+            <mask id={maskId}>
+              <rect width={imageWidth} height={imageHeight} fill="white" />
+              {shown.regions.map((region) =>
+                region.kind === "rect" ? (
+                  <rect
+                    key={region.id}
+                    x={region.x * imageWidth}
+                    y={region.y * imageHeight}
+                    width={region.width * imageWidth}
+                    height={region.height * imageHeight}
+                    fill="black"
+                  />
+                ) : (
+                  <polygon key={region.id} points={toPath(region.points, imageWidth, imageHeight)} fill="black" />
+                ),
+              )}
+            </mask>
+            <rect width={imageWidth} height={imageHeight} fill="black" fillOpacity={0.45} mask={`url(#${maskId})`} />
+          </>
+        )}
+
+        <g stroke="rgb(239 68 68 / 0.6)" fill="rgb(239 68 68 / 0.6)">
+          {shown.mask.map(drawStroke)}
+        </g>
+
+        {shown.regions.map((region) => {
+          const props = {
+            "data-region-id": region.id,
+            fill: "white",
+            fillOpacity: 0.01,
+            stroke: region.id === selectedId ? "#2563eb" : "#3b82f6",
+            strokeWidth: region.id === selectedId ? 2 : 1.5,
+            strokeDasharray: region.id === selectedId ? undefined : "4 3",
+            vectorEffect: "non-scaling-stroke" as const,
+            style: { cursor: tool === "mask" ? undefined : "move" },
+          }
+          return region.kind === "rect" ? (
+            <rect
+              key={region.id}
+              x={region.x * imageWidth}
+              y={region.y * imageHeight}
+              width={region.width * imageWidth}
+              height={region.height * imageHeight}
+              {...props}
+            />
+          ) : (
+            <polygon key={region.id} points={toPath(region.points, imageWidth, imageHeight)} {...props} />
+          )
+        })}
+      </svg>
+
+      {selected && selectedBounds && !working && (tool === "rect" || tool === "lasso") && (
+        <>
+          {selected.kind === "rect" && (
+            <div
+              data-resize-id={selected.id}
+              className="absolute h-2.5 w-2.5 -translate-x-1/2 -translate-y-1/2 rounded-sm border border-white bg-blue-600"
+              style={{
+                left: `${(selected.x + selected.width) * 100}%`,
+                top: `${(selected.y + selected.height) * 100}%`,
+                cursor: "nwse-resize",
+              }}
+            />
+          )}
+          <button
+            type="button"
+            className="absolute flex h-4 w-4 -translate-y-1/2 -translate-x-1/2 items-center justify-center rounded-full bg-white text-gray-700 shadow"
+            style={{
+              left: `${(selectedBounds.x + selectedBounds.width) * 100}%`,
+              top: `${selectedBounds.y * 100}%`,
+            }}
+            onPointerDown={(event) => event.stopPropagation()}
+            onClick={() => removeRegion(selected.id)}
+            aria-label="Remove region"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </>
+      )}
+    </div>
+  )
+}
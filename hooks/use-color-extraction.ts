@@ -0,0 +1,144 @@
+import * as React from "react"
+import {
+  createSampleBitmap,
+  type ExtractionOptions,
+  type ExtractionRequest,
+  type ExtractionResponse,
+  type ExtractionResult,
+  type ExtractionSource,
+} from "@/lib/extract"
+
+interface ExtractionHandlers {
+  onResult: (result: ExtractionResult) => void
+  onError: (message: string) => void
+}
+
+// Long enough to collapse a slider drag into one run, short enough to still feel live
+const SCHEDULE_DELAY_MS = 150
+
+/**
+ * Runs color extraction in a Web Worker kept for the whole session. Sources are scaled down
+ * to the sampling size and transferred, so a run copies only the pixels it reads. Starting a
+ * new run while one is in flight, or calling `cancel`, terminates the worker outright, since
+ * a quantizer in progress cannot be interrupted any other way; the next run starts a new one.
+ */
+export function useColorExtraction(handlers: ExtractionHandlers) {
+  const workerRef = React.useRef<Worker | null>(null)
+  const handlersRef = React.useRef(handlers)
+  handlersRef.current = handlers
+  // Bumped by every run and cancel, so a run still preparing its bitmaps knows it was superseded
+  const runRef = React.useRef(0)
+  const busyRef = React.useRef(false)
+  const timerRef = React.useRef<ReturnType<typeof setTimeout> | null>(null)
+  // 0–100 while a run is in flight, null when idle
+  const [progress, setProgress] = React.useState<number | null>(null)
+
+  const terminate = () => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+  }
+
+  const clearSchedule = () => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current)
+    timerRef.current = null
+  }
+
+  const getWorker = () => {
+    if (workerRef.current) return workerRef.current
+    const worker = new Worker(new URL("../lib/extract/extract.worker.ts", import.meta.url), { type: "module" })
+    workerRef.current = worker
+
+    worker.addEventListener("message", (event: MessageEvent<ExtractionResponse>) => {
+      if (workerRef.current !== worker) return
+      const response = event.data
+      if (response.type === "progress") {
+        setProgress(Math.round(response.progress * 100))
+        return
+      }
+      busyRef.current = false
+      setProgress(null)
+      if (response.type === "done") {
+        handlersRef.current.onResult({ colors: response.colors, wideGamut: response.wideGamut })
+      } else handlersRef.current.onError(response.message)
+    })
+    worker.addEventListener("error", (event) => {
+      if (workerRef.current !== worker) return
+      terminate()
+      busyRef.current = false
+      setProgress(null)
+      handlersRef.current.onError(event.message || "Extraction failed")
+    })
+    return worker
+  }
+
+  const cancel = React.useCallback(() => {
+    runRef.current++
+    clearSchedule()
+    if (busyRef.current) terminate()
+    busyRef.current = false
+    setProgress(null)
+  }, [])
+
+  const extract = React.useCallback(
+    async (sources: ExtractionSource[], options: ExtractionOptions) => {
+      cancel()
+      const run = runRef.current
+      setProgress(0)
+
+      // Settle every source so the bitmaps that were created can be closed if another one failed
+      const settled = await Promise.allSettled(
+        sources.map(({ bitmap }) => createSampleBitmap(bitmap, options.maxSize)),
+      )
+      const bitmaps = settled.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []))
+      if (bitmaps.length < settled.length || run !== runRef.current) {
+        bitmaps.forEach((bitmap) => bitmap.close())
+        if (run !== runRef.current) return
+        setProgress(null)
+        handlersRef.current.onError("The image could not be prepared for extraction")
+        return
+      }
+
+      let worker: Worker
+      try {
+        worker = getWorker()
+      } catch {
+        // Construction throws when the page's Content Security Policy blocks workers
+        bitmaps.forEach((bitmap) => bitmap.close())
+        setProgress(null)
+        handlersRef.current.onError("The extraction worker could not be started")
+        return
+      }
+
+      const request: ExtractionRequest = {
+        type: "extract",
+        sources: sources.map(({ selection }, i) => ({ bitmap: bitmaps[i], selection })),
+        options,
+      }
+      busyRef.current = true
+      worker.postMessage(request, bitmaps)
+    },
+    [cancel],
+  )
+
+  /** Like `extract`, but waits for input to settle so rapid changes start a single run. */
+  const schedule = React.useCallback(
+    (sources: ExtractionSource[], options: ExtractionOptions) => {
+      clearSchedule()
+      timerRef.current = setTimeout(() => {
+        timerRef.current = null
+        extract(sources, options)
+      }, SCHEDULE_DELAY_MS)
+    },
+    [extract],
+  )
+
+  React.useEffect(
+    () => () => {
+      clearSchedule()
+      terminate()
+    },
+    [],
+  )
+
+  return { progress, extract, schedule, cancel }
+}
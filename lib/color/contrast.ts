@@ -0,0 +1,141 @@
+import { clampColor, fromOklch, toLinear, toOklch } from "./convert"
+import { formatHex } from "./format"
+import { parseHex } from "./parse"
+import type { Color } from "./types"
+
+const WHITE: Color = { r: 1, g: 1, b: 1, alpha: 1 }
+
+/** WCAG 2.x thresholds for normal and large text. */
+export const WCAG_THRESHOLDS = {
+  aaNormal: 4.5,
+  aaLarge: 3,
+  aaaNormal: 7,
+  aaaLarge: 4.5,
+} as const
+
+export type WcagLevel = keyof typeof WCAG_THRESHOLDS
+
+export type WcagResult = Record<WcagLevel, boolean>
+
+/** Alpha-composites `top` over `bottom`, producing an opaque color when `bottom` is opaque. */
+export function compositeOver(top: Color, bottom: Color): Color {
+  const alpha = top.alpha + bottom.alpha * (1 - top.alpha)
+  if (alpha === 0) return { r: 0, g: 0, b: 0, alpha: 0 }
+  const mix = (t: number, b: number) => (t * top.alpha + b * bottom.alpha * (1 - top.alpha)) / alpha
+  return { r: mix(top.r, bottom.r), g: mix(top.g, bottom.g), b: mix(top.b, bottom.b), alpha }
+}
+
+/**
+ * Resolves a text/background pair to what is actually seen: the background over white,
+ * then the text over that background.
+ */
+function resolvePair(text: Color, background: Color): [Color, Color] {
+  const bg = compositeOver(clampColor(background), WHITE)
+  return [compositeOver(clampColor(text), bg), bg]
+}
+
+/** WCAG 2.x relative luminance of an opaque color. */
+export function relativeLuminance(color: Color): number {
+  const { r, g, b } = clampColor(color)
+  return 0.2126 * toLinear(r) + 0.7152 * toLinear(g) + 0.0722 * toLinear(b)
+}
+
+/** WCAG 2.x contrast ratio, from 1 to 21. */
+export function contrastRatio(text: Color, background: Color): number {
+  const [fg, bg] = resolvePair(text, background)
+  const l1 = relativeLuminance(fg)
+  const l2 = relativeLuminance(bg)
+  return (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05)
+}
+
+export function wcagLevels(ratio: number): WcagResult {
+  return {
+    aaNormal: ratio >= WCAG_THRESHOLDS.aaNormal,
+    aaLarge: ratio >= WCAG_THRESHOLDS.aaLarge,
+    aaaNormal: ratio >= WCAG_THRESHOLDS.aaaNormal,
+    aaaLarge: ratio >= WCAG_THRESHOLDS.aaaLarge,
+  }
+}
+
+// APCA-W3 0.0.98G-4g constants
+const APCA = {
+  mainTRC: 2.4,
+  sRco: 0.2126729,
+  sGco: 0.7151522,
+  sBco: 0.072175,
+  normBG: 0.56,
+  normTXT: 0.57,
+  revTXT: 0.62,
+  revBG: 0.65,
+  blkThrs: 0.022,
+  blkClmp: 1.414,
+  scaleBoW: 1.14,
+  scaleWoB: 1.14,
+  loBoWoffset: 0.027,
+  loWoBoffset: 0.027,
+  deltaYmin: 0.0005,
+  loClip: 0.1,
+}
+
+function apcaLuminance({ r, g, b }: Color): number {
+  const y =
+    APCA.sRco * Math.pow(r, APCA.mainTRC) +
+    APCA.sGco * Math.pow(g, APCA.mainTRC) +
+    APCA.sBco * Math.pow(b, APCA.mainTRC)
+  return y > APCA.blkThrs ? y : y + Math.pow(APCA.blkThrs - y, APCA.blkClmp)
+}
+
+/**
+ * APCA lightness contrast (Lc), roughly -108 to 106. Positive values are dark text on a
+ * light background, negative values light text on a dark background.
+ */
+export function apcaContrast(text: Color, background: Color): number {
+  const [fg, bg] = resolvePair(text, background)
+  const yText = apcaLuminance(fg)
+  const yBg = apcaLuminance(bg)
+
+  if (Math.abs(yBg - yText) < APCA.deltaYmin) return 0
+
+  if (yBg > yText) {
+    const sapc = (Math.pow(yBg, APCA.normBG) - Math.pow(yText, APCA.normTXT)) * APCA.scaleBoW
+    return sapc < APCA.loClip ? 0 : (sapc - APCA.loBoWoffset) * 100
+  }
+
+  const sapc = (Math.pow(yBg, APCA.revBG) - Math.pow(yText, APCA.revTXT)) * APCA.scaleWoB
+  return sapc > -APCA.loClip ? 0 : (sapc + APCA.loWoBoffset) * 100
+}
+
+/** Which side of a text/background pair is being adjusted. */
+export type ContrastRole = "text" | "background"
+
+/**
+ * Finds the color nearest to `color` that reaches `target` WCAG contrast against `other`,
+ * changing only OKLCH lightness so hue and chroma are kept. The result is rounded to what
+ * hex can store. Returns null when neither lighter nor darker gets there.
+ */
+export function fixContrast(color: Color, other: Color, target: number, role: ContrastRole = "text"): Color | null {
+  const { l, c, h } = toOklch(color)
+  // Round-trip through hex so the reported ratio is the one the palette will actually get
+  const candidate = (lightness: number) => parseHex(formatHex(fromOklch({ l: lightness, c, h }, color.alpha)))!
+  const ratio = (value: Color) => (role === "text" ? contrastRatio(value, other) : contrastRatio(other, value))
+
+  if (ratio(color) >= target) return color
+
+  const solutions = [1, 0]
+    .map((limit) => {
+      if (ratio(candidate(limit)) < target) return null
+      // Contrast grows monotonically as lightness moves away from the other color
+      let near = l
+      let far = limit
+      for (let i = 0; i < 32; i++) {
+        const mid = (near + far) / 2
+        if (ratio(candidate(mid)) >= target) far = mid
+        else near = mid
+      }
+      return { lightness: far, distance: Math.abs(far - l) }
+    })
+    .filter((solution) => solution !== null)
+    .sort((a, b) => a.distance - b.distance)
+
+  return solutions.length > 0 ? candidate(solutions[0].lightness) : null
+}
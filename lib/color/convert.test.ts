@@ -0,0 +1,117 @@
+import { describe, expect, it } from "vitest"
+import {
+  clampColor,
+  fromCmyk,
+  fromHsl,
+  fromHsv,
+  fromHwb,
+  fromLab,
+  fromLch,
+  fromOklab,
+  fromOklch,
+  fromRgb,
+  isInGamut,
+  toCmyk,
+  toHsl,
+  toHsv,
+  toHwb,
+  toLab,
+  toLch,
+  toOklab,
+  toOklch,
+  toRgb,
+} from "./convert"
+import { parseHex } from "./parse"
+import type { Color } from "./types"
+
+const SAMPLES = ["#000000", "#ffffff", "#808080", "#ff0000", "#00ff00", "#0000ff", "#ff8800", "#3b82f6", "#1a2b3c", "#f0e68c"]
+
+const colors = SAMPLES.map((hex) => [hex, parseHex(hex)!] as const)
+
+// An OKLCH green well outside the sRGB gamut
+const outOfGamut: Color = fromOklch({ l: 0.7, c: 0.35, h: 150 }, 0.5)
+
+// The Lab matrices only invert each other to about six decimals
+const EPSILON = 1e-5
+
+function expectColor(actual: Color, expected: Color) {
+  for (const channel of ["r", "g", "b", "alpha"] as const) {
+    expect(Math.abs(actual[channel] - expected[channel])).toBeLessThan(EPSILON)
+  }
+}
+
+describe("round trips", () => {
+  const cases: [string, (color: Color) => Color][] = [
+    ["rgb", (c) => fromRgb(toRgb(c), c.alpha)],
+    ["hsl", (c) => fromHsl(toHsl(c), c.alpha)],
+    ["hsv", (c) => fromHsv(toHsv(c), c.alpha)],
+    ["hwb", (c) => fromHwb(toHwb(c), c.alpha)],
+    ["cmyk", (c) => fromCmyk(toCmyk(c), c.alpha)],
+    ["lab", (c) => fromLab(toLab(c), c.alpha)],
+    ["lch", (c) => fromLch(toLch(c), c.alpha)],
+    ["oklab", (c) => fromOklab(toOklab(c), c.alpha)],
+    ["oklch", (c) => fromOklch(toOklch(c), c.alpha)],
+  ]
+
+  for (const [space, roundTrip] of cases) {
+    it.each(colors)(`${space} keeps %s`, (_, color) => {
+      expectColor(roundTrip(color), color)
+    })
+
+    it(`${space} keeps alpha`, () => {
+      expect(roundTrip({ r: 0.2, g: 0.4, b: 0.6, alpha: 0.25 }).alpha).toBe(0.25)
+    })
+  }
+
+  it.each(["lab", "lch", "oklab", "oklch"])("%s keeps out-of-gamut colors unclipped", (space) => {
+    const [, roundTrip] = cases.find(([name]) => name === space)!
+    expectColor(roundTrip(outOfGamut), outOfGamut)
+  })
+})
+
+describe("reference values", () => {
+  it("converts to hsl, hsv and hwb", () => {
+    const orange = parseHex("#ff8800")!
+    expect(toHsl(orange).h).toBeCloseTo(32, 0)
+    expect(toHsl(orange).s).toBeCloseTo(100)
+    expect(toHsv(orange).v).toBeCloseTo(100)
+    expect(toHwb(parseHex("#808080")!)).toMatchObject({ h: 0, w: expect.closeTo(50.2, 1), b: expect.closeTo(49.8, 1) })
+  })
+
+  it("converts white to Lab and OKLab", () => {
+    const white = parseHex("#ffffff")!
+    expect(toLab(white).l).toBeCloseTo(100, 3)
+    expect(toLab(white).a).toBeCloseTo(0, 3)
+    expect(toOklab(white).l).toBeCloseTo(1, 5)
+    expect(toOklch(white).c).toBeCloseTo(0, 5)
+  })
+
+  it("matches CSS reference values for red", () => {
+    const red = parseHex("#ff0000")!
+    const lab = toLab(red)
+    expect(lab.l).toBeCloseTo(54.29, 1)
+    expect(lab.a).toBeCloseTo(80.8, 1)
+    expect(lab.b).toBeCloseTo(69.89, 1)
+    const oklch = toOklch(red)
+    expect(oklch.l).toBeCloseTo(0.628, 3)
+    expect(oklch.c).toBeCloseTo(0.2577, 3)
+    expect(oklch.h).toBeCloseTo(29.23, 1)
+  })
+
+  it("pins the hue of neutral colors to zero", () => {
+    expect(toOklch(parseHex("#808080")!).h).toBe(0)
+    expect(toLch(parseHex("#808080")!).h).toBe(0)
+  })
+})
+
+describe("gamut", () => {
+  it("detects colors outside sRGB", () => {
+    expect(isInGamut(outOfGamut)).toBe(false)
+    expect(isInGamut(parseHex("#3b82f6")!)).toBe(true)
+  })
+
+  it("clips every channel into range", () => {
+    const clipped = clampColor({ r: 1.2, g: -0.1, b: 0.5, alpha: 2 })
+    expect(clipped).toEqual({ r: 1, g: 0, b: 0.5, alpha: 1 })
+  })
+})
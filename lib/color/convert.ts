@@ -0,0 +1,259 @@
+import type { Cmyk, Color, Hsl, Hsv, Hwb, Lab, Lch, Oklab, Oklch, Rgb } from "./types"
+
+export type Vec3 = [number, number, number]
+export type Mat3 = [Vec3, Vec3, Vec3]
+
+// Matrices from CSS Color Module Level 4, section 18
+const LINEAR_SRGB_TO_XYZ_D65: Mat3 = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+]
+
+const XYZ_D65_TO_LINEAR_SRGB: Mat3 = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+]
+
+const D65_TO_D50: Mat3 = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+]
+
+const D50_TO_D65: Mat3 = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580106629, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+]
+
+const D50_WHITE: Vec3 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585]
+
+const LAB_EPSILON = 216 / 24389
+const LAB_KAPPA = 24389 / 27
+
+export const multiply = (m: Mat3, [x, y, z]: Vec3): Vec3 => [
+  m[0][0] * x + m[0][1] * y + m[0][2] * z,
+  m[1][0] * x + m[1][1] * y + m[1][2] * z,
+  m[2][0] * x + m[2][1] * y + m[2][2] * z,
+]
+
+const normalizeHue = (h: number): number => ((h % 360) + 360) % 360
+
+export const clamp = (value: number, min = 0, max = 1): number => Math.max(min, Math.min(max, value))
+
+/** Decodes one sRGB channel to linear light. */
+export function toLinear(channel: number): number {
+  const abs = Math.abs(channel)
+  if (abs <= 0.04045) return channel / 12.92
+  return Math.sign(channel) * Math.pow((abs + 0.055) / 1.055, 2.4)
+}
+
+/** Encodes one linear-light channel with the sRGB transfer curve. */
+export function fromLinear(channel: number): number {
+  const abs = Math.abs(channel)
+  if (abs <= 0.0031308) return channel * 12.92
+  return Math.sign(channel) * (1.055 * Math.pow(abs, 1 / 2.4) - 0.055)
+}
+
+export function isInGamut(color: Color, epsilon = 1e-6): boolean {
+  return [color.r, color.g, color.b].every((c) => c >= -epsilon && c <= 1 + epsilon)
+}
+
+/** Clips every channel into the displayable sRGB range. */
+export function clampColor(color: Color): Color {
+  return { r: clamp(color.r), g: clamp(color.g), b: clamp(color.b), alpha: clamp(color.alpha) }
+}
+
+export function withAlpha(color: Color, alpha: number): Color {
+  return { ...color, alpha: clamp(alpha) }
+}
+
+export function toRgb(color: Color): Rgb {
+  return { r: color.r * 255, g: color.g * 255, b: color.b * 255 }
+}
+
+export function fromRgb({ r, g, b }: Rgb, alpha = 1): Color {
+  return { r: r / 255, g: g / 255, b: b / 255, alpha }
+}
+
+export function toHsl(color: Color): Hsl {
+  const { r, g, b } = color
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  const d = max - min
+
+  if (d === 0) return { h: 0, s: 0, l: l * 100 }
+
+  const s = l === 0 || l === 1 ? 0 : (max - l) / Math.min(l, 1 - l)
+  return { h: hueOf(color, max, d), s: s * 100, l: l * 100 }
+}
+
+export function fromHsl({ h, s, l }: Hsl, alpha = 1): Color {
+  const sat = s / 100
+  const light = l / 100
+  const f = (n: number) => {
+    const k = (n + normalizeHue(h) / 30) % 12
+    const a = sat * Math.min(light, 1 - light)
+    return light - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+  }
+  return { r: f(0), g: f(8), b: f(4), alpha }
+}
+
+export function toHsv(color: Color): Hsv {
+  const { r, g, b } = color
+  const max = Math.max(r, g, b)
+  const d = max - Math.min(r, g, b)
+  return {
+    h: d === 0 ? 0 : hueOf(color, max, d),
+    s: max === 0 ? 0 : (d / max) * 100,
+    v: max * 100,
+  }
+}
+
+export function fromHsv({ h, s, v }: Hsv, alpha = 1): Color {
+  const sat = s / 100
+  const value = v / 100
+  const f = (n: number) => {
+    const k = (n + normalizeHue(h) / 60) % 6
+    return value - value * sat * Math.max(0, Math.min(k, 4 - k, 1))
+  }
+  return { r: f(5), g: f(3), b: f(1), alpha }
+}
+
+export function toHwb(color: Color): Hwb {
+  const { h, s, v } = toHsv(color)
+  return { h, w: ((100 - s) * v) / 100, b: 100 - v }
+}
+
+export function fromHwb({ h, w, b }: Hwb, alpha = 1): Color {
+  const white = w / 100
+  const black = b / 100
+  if (white + black >= 1) {
+    const gray = white / (white + black)
+    return { r: gray, g: gray, b: gray, alpha }
+  }
+  const v = 1 - black
+  return fromHsv({ h, s: (1 - white / v) * 100, v: v * 100 }, alpha)
+}
+
+/** Converts without an ICC profile, so values only approximate what a press would use. */
+export function toCmyk(color: Color): Cmyk {
+  const { r, g, b } = clampColor(color)
+  const k = 1 - Math.max(r, g, b)
+  if (k === 1) return { c: 0, m: 0, y: 0, k: 100 }
+  const ink = (channel: number) => ((1 - channel - k) / (1 - k)) * 100
+  return { c: ink(r), m: ink(g), y: ink(b), k: k * 100 }
+}
+
+export function fromCmyk({ c, m, y, k }: Cmyk, alpha = 1): Color {
+  const black = 1 - k / 100
+  return {
+    r: (1 - c / 100) * black,
+    g: (1 - m / 100) * black,
+    b: (1 - y / 100) * black,
+    alpha,
+  }
+}
+
+export function toXyzD65(color: Color): Vec3 {
+  return multiply(LINEAR_SRGB_TO_XYZ_D65, [toLinear(color.r), toLinear(color.g), toLinear(color.b)])
+}
+
+export function fromXyzD65(xyz: Vec3, alpha = 1): Color {
+  const [r, g, b] = multiply(XYZ_D65_TO_LINEAR_SRGB, xyz).map(fromLinear)
+  return { r, g, b, alpha }
+}
+
+export function fromXyzD50(xyz: Vec3, alpha = 1): Color {
+  return fromXyzD65(multiply(D50_TO_D65, xyz), alpha)
+}
+
+export function toLab(color: Color): Lab {
+  const linear: Vec3 = [toLinear(color.r), toLinear(color.g), toLinear(color.b)]
+  const xyz = multiply(D65_TO_D50, multiply(LINEAR_SRGB_TO_XYZ_D65, linear))
+  const [fx, fy, fz] = xyz.map((v, i) => {
+    const t = v / D50_WHITE[i]
+    return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116
+  })
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) }
+}
+
+export function fromLab({ l, a, b }: Lab, alpha = 1): Color {
+  const fy = (l + 16) / 116
+  const fx = fy + a / 500
+  const fz = fy - b / 200
+  const xyz: Vec3 = [
+    (fx ** 3 > LAB_EPSILON ? fx ** 3 : (116 * fx - 16) / LAB_KAPPA) * D50_WHITE[0],
+    (l > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : l / LAB_KAPPA) * D50_WHITE[1],
+    (fz ** 3 > LAB_EPSILON ? fz ** 3 : (116 * fz - 16) / LAB_KAPPA) * D50_WHITE[2],
+  ]
+  return fromXyzD50(xyz, alpha)
+}
+
+export function toLch(color: Color): Lch {
+  return toPolar(toLab(color))
+}
+
+export function fromLch(lch: Lch, alpha = 1): Color {
+  return fromLab(fromPolar(lch), alpha)
+}
+
+export function toOklab(color: Color): Oklab {
+  const r = toLinear(color.r)
+  const g = toLinear(color.g)
+  const b = toLinear(color.b)
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b)
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b)
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b)
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  }
+}
+
+export function fromOklab({ l: L, a, b }: Oklab, alpha = 1): Color {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+    alpha,
+  }
+}
+
+export function toOklch(color: Color): Oklch {
+  return toPolar(toOklab(color))
+}
+
+export function fromOklch(oklch: Oklch, alpha = 1): Color {
+  return fromOklab(fromPolar(oklch), alpha)
+}
+
+function hueOf({ r, g, b }: Color, max: number, d: number): number {
+  let h: number
+  if (max === r) h = (g - b) / d + (g < b ? 6 : 0)
+  else if (max === g) h = (b - r) / d + 2
+  else h = (r - g) / d + 4
+  return normalizeHue(h * 60)
+}
+
+function toPolar({ l, a, b }: { l: number; a: number; b: number }) {
+  const c = Math.sqrt(a * a + b * b)
+  // Hue is meaningless for near-neutral colors; pin it so round trips are stable
+  const h = c < 1e-4 ? 0 : normalizeHue((Math.atan2(b, a) * 180) / Math.PI)
+  return { l, c, h }
+}
+
+function fromPolar({ l, c, h }: { l: number; c: number; h: number }) {
+  const rad = (h * Math.PI) / 180
+  return { l, a: c * Math.cos(rad), b: c * Math.sin(rad) }
+}
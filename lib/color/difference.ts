@@ -0,0 +1,86 @@
+import { toLab, toOklab } from "./convert"
+import type { Color } from "./types"
+
+export type DeltaEMethod = "2000" | "ok"
+
+export const DELTA_E_METHODS: { id: DeltaEMethod; label: string }[] = [
+  { id: "2000", label: "CIEDE2000" },
+  { id: "ok", label: "OKLab" },
+]
+
+const DEG = Math.PI / 180
+const POW25_7 = 25 ** 7
+
+/** Hue angle of (a, b) in degrees, 0–360. */
+function hue(a: number, b: number): number {
+  if (a === 0 && b === 0) return 0
+  const h = Math.atan2(b, a) / DEG
+  return h < 0 ? h + 360 : h
+}
+
+/** CIEDE2000 colour difference (Sharma, Wu & Dalal), with kL = kC = kH = 1. Alpha is ignored. */
+export function deltaE2000(first: Color, second: Color): number {
+  const lab1 = toLab(first)
+  const lab2 = toLab(second)
+
+  const c1 = Math.hypot(lab1.a, lab1.b)
+  const c2 = Math.hypot(lab2.a, lab2.b)
+  const meanC7 = ((c1 + c2) / 2) ** 7
+  const g = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + POW25_7)))
+
+  const a1 = lab1.a * (1 + g)
+  const a2 = lab2.a * (1 + g)
+  const cp1 = Math.hypot(a1, lab1.b)
+  const cp2 = Math.hypot(a2, lab2.b)
+  const hp1 = hue(a1, lab1.b)
+  const hp2 = hue(a2, lab2.b)
+
+  const dL = lab2.l - lab1.l
+  const dC = cp2 - cp1
+  let dh = 0
+  if (cp1 * cp2 !== 0) {
+    dh = hp2 - hp1
+    if (dh > 180) dh -= 360
+    else if (dh < -180) dh += 360
+  }
+  const dH = 2 * Math.sqrt(cp1 * cp2) * Math.sin((dh / 2) * DEG)
+
+  const meanL = (lab1.l + lab2.l) / 2
+  const meanCp = (cp1 + cp2) / 2
+  let meanH = hp1 + hp2
+  if (cp1 * cp2 !== 0) {
+    if (Math.abs(hp1 - hp2) <= 180) meanH /= 2
+    else meanH = hp1 + hp2 < 360 ? (meanH + 360) / 2 : (meanH - 360) / 2
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos((meanH - 30) * DEG) +
+    0.24 * Math.cos(2 * meanH * DEG) +
+    0.32 * Math.cos((3 * meanH + 6) * DEG) -
+    0.2 * Math.cos((4 * meanH - 63) * DEG)
+  const sL = 1 + (0.015 * (meanL - 50) ** 2) / Math.sqrt(20 + (meanL - 50) ** 2)
+  const sC = 1 + 0.045 * meanCp
+  const sH = 1 + 0.015 * meanCp * t
+  const meanCp7 = meanCp ** 7
+  const rT =
+    -2 * Math.sqrt(meanCp7 / (meanCp7 + POW25_7)) * Math.sin(60 * Math.exp(-(((meanH - 275) / 25) ** 2)) * DEG)
+
+  return Math.sqrt(
+    (dL / sL) ** 2 + (dC / sC) ** 2 + (dH / sH) ** 2 + rT * (dC / sC) * (dH / sH),
+  )
+}
+
+/**
+ * Euclidean distance in OKLab, scaled by 100 so thresholds read on roughly the same
+ * scale as CIEDE2000.
+ */
+export function deltaEOk(first: Color, second: Color): number {
+  const a = toOklab(first)
+  const b = toOklab(second)
+  return 100 * Math.hypot(a.l - b.l, a.a - b.a, a.b - b.b)
+}
+
+export function deltaE(first: Color, second: Color, method: DeltaEMethod = "2000"): number {
+  return method === "ok" ? deltaEOk(first, second) : deltaE2000(first, second)
+}
@@ -0,0 +1,140 @@
+import { describe, expect, it } from "vitest"
+import { fromOklch } from "./convert"
+import {
+  formatDisplayP3,
+  formatHex,
+  formatHsl,
+  formatHwb,
+  formatLab,
+  formatLch,
+  formatOklab,
+  formatOklch,
+  formatRgb,
+  normalizeHex,
+} from "./format"
+import { parseColor, parseCssColor, parseHex } from "./parse"
+import type { Color } from "./types"
+
+const SAMPLES = ["#000000", "#ffffff", "#808080", "#ff0000", "#00ff00", "#0000ff", "#ff8800", "#3b82f6", "#1a2b3c", "#f0e68c"]
+
+const outOfGamut: Color = fromOklch({ l: 0.7, c: 0.35, h: 150 })
+
+// Formatted strings are rounded for 8-bit output, so compare loosely
+const EPSILON = 2e-3
+
+function expectColor(actual: Color | null, expected: Color) {
+  expect(actual).not.toBeNull()
+  for (const channel of ["r", "g", "b", "alpha"] as const) {
+    expect(Math.abs(actual![channel] - expected[channel])).toBeLessThan(EPSILON)
+  }
+}
+
+describe("hex", () => {
+  it.each([
+    ["#f80", "#ff8800"],
+    ["#f808", "#ff880088"],
+    ["#FF8800", "#ff8800"],
+    ["#ff880080", "#ff880080"],
+    ["ff8800", "#ff8800"],
+    ["#ff8800ff", "#ff8800"],
+  ])("normalizes %s to %s", (input, expected) => {
+    expect(normalizeHex(input)).toBe(expected)
+  })
+
+  it.each(["#ff", "#ff880", "#ff88000", "#gg0000", "", "#"])("rejects %j", (input) => {
+    expect(parseHex(input)).toBeNull()
+    expect(normalizeHex(input)).toBe("")
+  })
+
+  it("reads alpha from 4 and 8 digit forms", () => {
+    expect(parseHex("#0000")!.alpha).toBe(0)
+    expect(parseHex("#00000080")!.alpha).toBeCloseTo(128 / 255)
+  })
+
+  it.each(SAMPLES)("round trips %s", (hex) => {
+    expect(formatHex(parseHex(hex)!)).toBe(hex)
+  })
+
+  it("clips out-of-gamut colors", () => {
+    expect(formatHex({ r: 1.3, g: -0.2, b: 0.5, alpha: 1 })).toBe("#ff0080")
+  })
+})
+
+describe("parse and format pairs", () => {
+  const pairs: [string, (color: Color) => string][] = [
+    ["rgb", formatRgb],
+    ["hsl", formatHsl],
+    ["hwb", formatHwb],
+    ["lab", formatLab],
+    ["lch", formatLch],
+    ["oklab", formatOklab],
+    ["oklch", formatOklch],
+    ["color", formatDisplayP3],
+  ]
+
+  for (const [format, write] of pairs) {
+    it.each(SAMPLES)(`${format} round trips %s`, (hex) => {
+      const parsed = parseCssColor(write(parseHex(hex)!))
+      expect(parsed?.format).toBe(format)
+      expect(formatHex(parsed!.color)).toBe(hex)
+    })
+
+    it(`${format} keeps alpha`, () => {
+      const color = { ...parseHex("#3b82f6")!, alpha: 0.5 }
+      const text = write(color)
+      expect(text).toContain("/ 0.5")
+      expectColor(parseColor(text), color)
+    })
+  }
+
+  it.each([
+    ["lab", formatLab],
+    ["lch", formatLch],
+    ["oklab", formatOklab],
+    ["oklch", formatOklch],
+    ["color", formatDisplayP3],
+  ] as const)("%s keeps out-of-gamut colors", (_, write) => {
+    expectColor(parseColor(write(outOfGamut)), outOfGamut)
+  })
+
+  it.each([
+    ["rgb", formatRgb],
+    ["hsl", formatHsl],
+    ["hwb", formatHwb],
+  ] as const)("%s clips out-of-gamut colors", (_, write) => {
+    const parsed = parseColor(write(outOfGamut))!
+    expect(formatHex(parsed)).toBe(formatHex(outOfGamut))
+  })
+})
+
+describe("parseCssColor", () => {
+  it.each([
+    ["rgb(255, 136, 0)", "#ff8800"],
+    ["rgba(255, 136, 0, 0.5)", "#ff880080"],
+    ["rgb(100% 53.33% 0% / 50%)", "#ff880080"],
+    ["hsl(32 100% 50%)", "#ff8800"],
+    ["hsla(32deg, 100%, 50%, 1)", "#ff8800"],
+    ["hsl(0.0889turn 100% 50%)", "#ff8800"],
+    ["hwb(32 0% 0%)", "#ff8800"],
+    ["lab(54.29 80.8 69.89)", "#ff0000"],
+    ["oklch(62.8% 0.2577 29.23)", "#ff0000"],
+    ["oklch(none none none)", "#000000"],
+    ["color(srgb 1 0.5333 0)", "#ff8800"],
+    ["rebeccapurple", "#663399"],
+    ["transparent", "#00000000"],
+  ])("parses %s", (input, hex) => {
+    expect(formatHex(parseColor(input)!)).toBe(hex)
+  })
+
+  it.each(["rgb(1 2)", "rgb(1, 2 3)", "hsl(1 2 3 / 4 / 5)", "color(unknown 1 0 0)", "nope(1 2 3)", "bluish"])(
+    "rejects %s",
+    (input) => {
+      expect(parseCssColor(input)).toBeNull()
+    },
+  )
+
+  it("clamps alpha to the unit range", () => {
+    expect(parseColor("rgb(0 0 0 / 150%)")!.alpha).toBe(1)
+    expect(parseColor("rgb(0 0 0 / -1)")!.alpha).toBe(0)
+  })
+})
@@ -0,0 +1,76 @@
+import { clamp, clampColor, toHsl, toHwb, toLab, toLch, toOklab, toOklch, toRgb } from "./convert"
+import { parseHex } from "./parse"
+import { toDisplayP3 } from "./predefined"
+import type { Color } from "./types"
+
+/** Rounds to a fixed number of decimals without leaving trailing zeros. */
+export const round = (value: number, digits = 0): number => {
+  const factor = 10 ** digits
+  const rounded = Math.round(value * factor) / factor
+  // Avoid printing "-0"
+  return Object.is(rounded, -0) ? 0 : rounded
+}
+
+const alphaSuffix = (alpha: number): string => (alpha < 1 ? ` / ${round(clamp(alpha), 3)}` : "")
+
+const toByte = (channel: number): string =>
+  Math.round(clamp(channel) * 255)
+    .toString(16)
+    .padStart(2, "0")
+
+/**
+ * Formats as lowercase `#rrggbb`, or `#rrggbbaa` when the color is translucent.
+ * Out-of-gamut channels are clipped.
+ */
+export function formatHex(color: Color): string {
+  const { r, g, b, alpha } = clampColor(color)
+  const hex = `#${toByte(r)}${toByte(g)}${toByte(b)}`
+  return alpha < 1 ? hex + toByte(alpha) : hex
+}
+
+export function formatRgb(color: Color): string {
+  const { r, g, b } = toRgb(clampColor(color))
+  return `rgb(${round(r)} ${round(g)} ${round(b)}${alphaSuffix(color.alpha)})`
+}
+
+export function formatHsl(color: Color): string {
+  const { h, s, l } = toHsl(clampColor(color))
+  return `hsl(${round(h, 1)} ${round(s, 1)}% ${round(l, 1)}%${alphaSuffix(color.alpha)})`
+}
+
+export function formatHwb(color: Color): string {
+  const { h, w, b } = toHwb(clampColor(color))
+  return `hwb(${round(h, 1)} ${round(w, 1)}% ${round(b, 1)}%${alphaSuffix(color.alpha)})`
+}
+
+export function formatLab(color: Color): string {
+  const { l, a, b } = toLab(color)
+  return `lab(${round(l, 2)} ${round(a, 2)} ${round(b, 2)}${alphaSuffix(color.alpha)})`
+}
+
+export function formatLch(color: Color): string {
+  const { l, c, h } = toLch(color)
+  return `lch(${round(l, 2)} ${round(c, 2)} ${round(h, 2)}${alphaSuffix(color.alpha)})`
+}
+
+export function formatOklab(color: Color): string {
+  const { l, a, b } = toOklab(color)
+  return `oklab(${round(l, 4)} ${round(a, 4)} ${round(b, 4)}${alphaSuffix(color.alpha)})`
+}
+
+export function formatOklch(color: Color): string {
+  const { l, c, h } = toOklch(color)
+  return `oklch(${round(l * 100, 2)}% ${round(c, 4)} ${round(h, 2)}${alphaSuffix(color.alpha)})`
+}
+
+/** Formats as `color(display-p3 r g b)`, which keeps colors outside sRGB intact. */
+export function formatDisplayP3(color: Color): string {
+  const [r, g, b] = toDisplayP3(color)
+  return `color(display-p3 ${round(r, 4)} ${round(g, 4)} ${round(b, 4)}${alphaSuffix(color.alpha)})`
+}
+
+/** Returns the canonical hex form of a hex string, or "" when it is not valid hex. */
+export function normalizeHex(input: string): string {
+  const color = parseHex(input)
+  return color ? formatHex(color) : ""
+}
@@ -0,0 +1,20 @@
+import { clampColor, fromOklch, isInGamut } from "./convert"
+import type { Color, Oklch } from "./types"
+
+/**
+ * Converts OKLCH to sRGB, reducing chroma until the color fits the sRGB gamut so that
+ * lightness and hue survive. Plain clipping would shift the hue of saturated colors.
+ */
+export function oklchToGamut(oklch: Oklch, alpha = 1): Color {
+  const direct = fromOklch(oklch, alpha)
+  if (isInGamut(direct)) return direct
+
+  let low = 0
+  let high = oklch.c
+  for (let i = 0; i < 24; i++) {
+    const mid = (low + high) / 2
+    if (isInGamut(fromOklch({ ...oklch, c: mid }, alpha))) low = mid
+    else high = mid
+  }
+  return clampColor(fromOklch({ ...oklch, c: low }, alpha))
+}
@@ -0,0 +1,61 @@
+import { fromHsl, toHsl, toOklch } from "./convert"
+import { oklchToGamut } from "./gamut"
+import type { Color } from "./types"
+
+export type HarmonyRule =
+  | "complementary"
+  | "split-complementary"
+  | "analogous"
+  | "triadic"
+  | "tetradic"
+  | "monochromatic"
+
+/** Space the hue rotation happens in. OKLCH keeps perceived lightness steady; HSL matches most tools. */
+export type HarmonySpace = "oklch" | "hsl"
+
+export const HARMONY_RULES: { id: HarmonyRule; label: string }[] = [
+  { id: "complementary", label: "Complementary" },
+  { id: "split-complementary", label: "Split complementary" },
+  { id: "analogous", label: "Analogous" },
+  { id: "triadic", label: "Triadic" },
+  { id: "tetradic", label: "Tetradic" },
+  { id: "monochromatic", label: "Monochromatic" },
+]
+
+const HUE_OFFSETS: Record<Exclude<HarmonyRule, "monochromatic">, number[]> = {
+  complementary: [0, 180],
+  "split-complementary": [0, 150, 210],
+  analogous: [0, -30, 30],
+  triadic: [0, 120, 240],
+  tetradic: [0, 90, 180, 270],
+}
+
+// Lightness steps either side of the base, as a fraction of the full range
+const MONOCHROMATIC_STEPS = [0, -0.3, -0.15, 0.15, 0.3]
+
+const clampLightness = (l: number) => Math.max(0.05, Math.min(0.97, l))
+
+/** Returns the harmony set for `base`, with `base` itself first. */
+export function generateHarmony(base: Color, rule: HarmonyRule, space: HarmonySpace): Color[] {
+  if (space === "hsl") {
+    const { h, s, l } = toHsl(base)
+    if (rule === "monochromatic") {
+      return MONOCHROMATIC_STEPS.map((step) =>
+        step === 0 ? base : fromHsl({ h, s, l: clampLightness(l / 100 + step) * 100 }, base.alpha),
+      )
+    }
+    return HUE_OFFSETS[rule].map((offset) =>
+      offset === 0 ? base : fromHsl({ h: h + offset, s, l }, base.alpha),
+    )
+  }
+
+  const { l, c, h } = toOklch(base)
+  if (rule === "monochromatic") {
+    return MONOCHROMATIC_STEPS.map((step) =>
+      step === 0 ? base : oklchToGamut({ l: clampLightness(l + step), c, h }, base.alpha),
+    )
+  }
+  return HUE_OFFSETS[rule].map((offset) =>
+    offset === 0 ? base : oklchToGamut({ l, c, h: (h + offset + 360) % 360 }, base.alpha),
+  )
+}
@@ -0,0 +1,68 @@
+export type { Cmyk, Color, Hsl, Hsv, Hwb, Lab, Lch, Oklab, Oklch, Rgb } from "./types"
+export {
+  clamp,
+  clampColor,
+  fromCmyk,
+  fromHsl,
+  fromHsv,
+  fromHwb,
+  fromLab,
+  fromLch,
+  fromLinear,
+  fromOklab,
+  fromOklch,
+  fromRgb,
+  isInGamut,
+  toCmyk,
+  toHsl,
+  toHsv,
+  toHwb,
+  toLab,
+  toLch,
+  toLinear,
+  toOklab,
+  toOklch,
+  toRgb,
+  toXyzD65,
+  withAlpha,
+} from "./convert"
+export {
+  WCAG_THRESHOLDS,
+  apcaContrast,
+  compositeOver,
+  contrastRatio,
+  fixContrast,
+  relativeLuminance,
+  wcagLevels,
+  type ContrastRole,
+  type WcagLevel,
+  type WcagResult,
+} from "./contrast"
+export { DELTA_E_METHODS, deltaE, deltaE2000, deltaEOk, type DeltaEMethod } from "./difference"
+export {
+  formatDisplayP3,
+  formatHex,
+  formatHsl,
+  formatHwb,
+  formatLab,
+  formatLch,
+  formatOklab,
+  formatOklch,
+  formatRgb,
+  normalizeHex,
+  round,
+} from "./format"
+export { oklchToGamut } from "./gamut"
+export { HARMONY_RULES, generateHarmony, type HarmonyRule, type HarmonySpace } from "./harmony"
+export { NAMED_COLORS } from "./named"
+export { isValidHex, parseColor, parseCssColor, parseHex, type ColorFormat, type ParsedColor } from "./parse"
+export {
+  SCALE_CURVES,
+  SCALE_STEPS,
+  generateScale,
+  type ScaleCurve,
+  type ScaleStep,
+  type ScaleStop,
+} from "./scale"
+export { COLOR_SPACES, type ChannelSpec, type ColorSpaceSpec } from "./spaces"
+export { PREDEFINED_SPACES, fromPredefined, isPredefinedSpace, toDisplayP3, type PredefinedSpace } from "./predefined"
@@ -0,0 +1,195 @@
+import { fromHsl, fromHwb, fromLab, fromLch, fromOklab, fromOklch, fromRgb } from "./convert"
+import { NAMED_COLORS } from "./named"
+import { fromPredefined, isPredefinedSpace } from "./predefined"
+import type { Color } from "./types"
+
+/** The syntax a color string was written in. */
+export type ColorFormat =
+  | "hex"
+  | "named"
+  | "rgb"
+  | "hsl"
+  | "hwb"
+  | "lab"
+  | "lch"
+  | "oklab"
+  | "oklch"
+  | "color"
+
+export interface ParsedColor {
+  color: Color
+  format: ColorFormat
+  /** The trimmed source text. */
+  input: string
+}
+
+interface Component {
+  value: number
+  unit: string
+}
+
+interface FunctionalColor {
+  name: string
+  /** The color space named by `color()`, unset for the other functions. */
+  space?: string
+  channels: Component[]
+  alpha?: Component
+}
+
+const HEX_PATTERN = /^#?([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+const FUNCTION_PATTERN = /^([a-z]+)\(\s*(.*?)\s*\)$/i
+const COMPONENT_PATTERN = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%|deg|grad|rad|turn)?$/i
+
+/** Accepts `#rgb`, `#rgba`, `#rrggbb` and `#rrggbbaa`, with or without the leading `#`. */
+export function isValidHex(input: string): boolean {
+  return HEX_PATTERN.test(input.trim())
+}
+
+export function parseHex(input: string): Color | null {
+  const match = HEX_PATTERN.exec(input.trim())
+  if (!match) return null
+
+  let digits = match[1]
+  if (digits.length <= 4) {
+    digits = digits
+      .split("")
+      .map((d) => d + d)
+      .join("")
+  }
+
+  const byte = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16) / 255
+  return {
+    r: byte(0),
+    g: byte(1),
+    b: byte(2),
+    alpha: digits.length === 8 ? byte(3) : 1,
+  }
+}
+
+/**
+ * Parses any CSS Color Level 4 color that resolves without a document: hex, named colors,
+ * `transparent`, the `rgb()`, `hsl()`, `hwb()`, `lab()`, `lch()`, `oklab()` and `oklch()`
+ * functions in both legacy comma-separated and modern syntax, and `color()` with any
+ * predefined space. Bare hex digits without `#` are accepted as well.
+ */
+export function parseCssColor(input: string): ParsedColor | null {
+  const value = input.trim()
+  if (!value) return null
+
+  const hex = parseHex(value)
+  if (hex) return { color: hex, format: "hex", input: value }
+
+  const named = NAMED_COLORS[value.toLowerCase()]
+  if (named) return { color: parseHex(named)!, format: "named", input: value }
+
+  const fn = parseFunction(value)
+  const color = fn && fromFunctional(fn)
+  if (!fn || !color) return null
+
+  return { color, format: functionFormat(fn.name), input: value }
+}
+
+export function parseColor(input: string): Color | null {
+  return parseCssColor(input)?.color ?? null
+}
+
+function parseFunction(input: string): FunctionalColor | null {
+  const match = FUNCTION_PATTERN.exec(input)
+  if (!match) return null
+
+  const name = match[1].toLowerCase()
+  let body = match[2]
+  let space: string | undefined
+  let parts: string[]
+  let alphaPart: string | undefined
+
+  if (name === "color") {
+    const spaceMatch = /^([a-z0-9-]+)\s+/i.exec(body)
+    if (!spaceMatch) return null
+    space = spaceMatch[1].toLowerCase()
+    body = body.slice(spaceMatch[0].length)
+  }
+
+  if (body.includes(",")) {
+    parts = body.split(",").map((p) => p.trim())
+    if (parts.length === 4) alphaPart = parts.pop()
+  } else {
+    const [channels, alpha, ...rest] = body.split("/")
+    if (rest.length > 0) return null
+    parts = channels.trim().split(/\s+/)
+    alphaPart = alpha?.trim()
+  }
+
+  if (parts.length !== 3) return null
+
+  const channels = parts.map(parseComponent)
+  if (channels.some((c) => c === null)) return null
+
+  let alpha: Component | undefined
+  if (alphaPart !== undefined) {
+    const parsed = parseComponent(alphaPart)
+    if (!parsed) return null
+    alpha = parsed
+  }
+
+  return { name, space, channels: channels as Component[], alpha }
+}
+
+function parseComponent(token: string): Component | null {
+  if (token.toLowerCase() === "none") return { value: 0, unit: "" }
+  const match = COMPONENT_PATTERN.exec(token)
+  if (!match) return null
+  return { value: parseFloat(match[1]), unit: (match[2] ?? "").toLowerCase() }
+}
+
+/** Resolves a number or percentage, where 100% maps to `percentScale`. */
+function resolve({ value, unit }: Component, percentScale: number): number {
+  return unit === "%" ? (value / 100) * percentScale : value
+}
+
+function resolveHue({ value, unit }: Component): number {
+  switch (unit) {
+    case "rad":
+      return (value * 180) / Math.PI
+    case "grad":
+      return value * 0.9
+    case "turn":
+      return value * 360
+    default:
+      return value
+  }
+}
+
+function functionFormat(name: string): ColorFormat {
+  if (name === "rgba") return "rgb"
+  if (name === "hsla") return "hsl"
+  return name as ColorFormat
+}
+
+function fromFunctional({ name, space, channels: [c1, c2, c3], alpha }: FunctionalColor): Color | null {
+  const a = alpha ? Math.max(0, Math.min(1, resolve(alpha, 1))) : 1
+
+  switch (name) {
+    case "rgb":
+    case "rgba":
+      return fromRgb({ r: resolve(c1, 255), g: resolve(c2, 255), b: resolve(c3, 255) }, a)
+    case "hsl":
+    case "hsla":
+      return fromHsl({ h: resolveHue(c1), s: resolve(c2, 100), l: resolve(c3, 100) }, a)
+    case "hwb":
+      return fromHwb({ h: resolveHue(c1), w: resolve(c2, 100), b: resolve(c3, 100) }, a)
+    case "lab":
+      return fromLab({ l: resolve(c1, 100), a: resolve(c2, 125), b: resolve(c3, 125) }, a)
+    case "lch":
+      return fromLch({ l: resolve(c1, 100), c: resolve(c2, 150), h: resolveHue(c3) }, a)
+    case "oklab":
+      return fromOklab({ l: resolve(c1, 1), a: resolve(c2, 0.4), b: resolve(c3, 0.4) }, a)
+    case "oklch":
+      return fromOklch({ l: resolve(c1, 1), c: resolve(c2, 0.4), h: resolveHue(c3) }, a)
+    case "color":
+      if (!space || !isPredefinedSpace(space)) return null
+      return fromPredefined(space, [resolve(c1, 1), resolve(c2, 1), resolve(c3, 1)], a)
+    default:
+      return null
+  }
+}
@@ -0,0 +1,114 @@
+import { fromLinear, fromXyzD50, fromXyzD65, multiply, toLinear, toXyzD65, type Mat3, type Vec3 } from "./convert"
+import type { Color } from "./types"
+
+/** Color spaces accepted by the CSS `color()` function. */
+export type PredefinedSpace =
+  | "srgb"
+  | "srgb-linear"
+  | "display-p3"
+  | "a98-rgb"
+  | "prophoto-rgb"
+  | "rec2020"
+  | "xyz"
+  | "xyz-d50"
+  | "xyz-d65"
+
+interface RgbSpace {
+  toLinear: (channel: number) => number
+  toXyz: Mat3
+  white: "d50" | "d65"
+}
+
+const signed = (channel: number, fn: (abs: number) => number) => Math.sign(channel) * fn(Math.abs(channel))
+
+// Matrices and transfer functions from CSS Color Module Level 4, section 18
+const RGB_SPACES: Partial<Record<PredefinedSpace, RgbSpace>> = {
+  "display-p3": {
+    toLinear,
+    toXyz: [
+      [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+      [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+      [0, 0.04511338185890264, 1.043944368900976],
+    ],
+    white: "d65",
+  },
+  "a98-rgb": {
+    toLinear: (c) => signed(c, (abs) => Math.pow(abs, 563 / 256)),
+    toXyz: [
+      [0.5766690429101305, 0.1855582379065463, 0.1882286462349947],
+      [0.29734497525053605, 0.6273635662554661, 0.07529145849399788],
+      [0.02703136138641234, 0.07068885253582723, 0.9913375368376388],
+    ],
+    white: "d65",
+  },
+  "prophoto-rgb": {
+    toLinear: (c) => signed(c, (abs) => (abs <= 16 / 512 ? abs / 16 : Math.pow(abs, 1.8))),
+    toXyz: [
+      [0.7977604896723027, 0.13518583717574031, 0.0313493495815248],
+      [0.2880711282292934, 0.7118432178101014, 0.00008565396060525902],
+      [0, 0, 0.8251046025104601],
+    ],
+    white: "d50",
+  },
+  rec2020: {
+    toLinear: (c) =>
+      signed(c, (abs) => {
+        const alpha = 1.09929682680944
+        const beta = 0.018053968510807
+        return abs < beta * 4.5 ? abs / 4.5 : Math.pow((abs + alpha - 1) / alpha, 1 / 0.45)
+      }),
+    toXyz: [
+      [0.6369580483012914, 0.14461690358620832, 0.1688809751641721],
+      [0.2627002120112671, 0.6779980715188708, 0.05930171646986196],
+      [0, 0.028072693049087428, 1.060985057710791],
+    ],
+    white: "d65",
+  },
+}
+
+const XYZ_D65_TO_LINEAR_P3: Mat3 = [
+  [2.493496911941425, -0.9313836179191239, -0.40271078445071684],
+  [-0.8294889695615747, 1.7626640603183463, 0.023624685841943577],
+  [0.03584583024378447, -0.07617238926804182, 0.9568845240076872],
+]
+
+export const PREDEFINED_SPACES: PredefinedSpace[] = [
+  "srgb",
+  "srgb-linear",
+  "display-p3",
+  "a98-rgb",
+  "prophoto-rgb",
+  "rec2020",
+  "xyz",
+  "xyz-d50",
+  "xyz-d65",
+]
+
+export function isPredefinedSpace(name: string): name is PredefinedSpace {
+  return (PREDEFINED_SPACES as string[]).includes(name)
+}
+
+/** Converts `color(<space> c1 c2 c3)` coordinates to sRGB. */
+export function fromPredefined(space: PredefinedSpace, [c1, c2, c3]: Vec3, alpha = 1): Color {
+  switch (space) {
+    case "srgb":
+      return { r: c1, g: c2, b: c3, alpha }
+    case "srgb-linear":
+      return { r: fromLinear(c1), g: fromLinear(c2), b: fromLinear(c3), alpha }
+    case "xyz":
+    case "xyz-d65":
+      return fromXyzD65([c1, c2, c3], alpha)
+    case "xyz-d50":
+      return fromXyzD50([c1, c2, c3], alpha)
+  }
+
+  const rgb = RGB_SPACES[space]!
+  const xyz = multiply(rgb.toXyz, [rgb.toLinear(c1), rgb.toLinear(c2), rgb.toLinear(c3)])
+  return rgb.white === "d50" ? fromXyzD50(xyz, alpha) : fromXyzD65(xyz, alpha)
+}
+
+/** Display-P3 coordinates of a color, the inverse of `fromPredefined("display-p3", …)`. */
+export function toDisplayP3(color: Color): Vec3 {
+  const [r, g, b] = multiply(XYZ_D65_TO_LINEAR_P3, toXyzD65(color)).map(fromLinear)
+  return [r, g, b]
+}
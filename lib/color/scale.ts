@@ -0,0 +1,79 @@
+import { toOklch } from "./convert"
+import { formatHex } from "./format"
+import { oklchToGamut } from "./gamut"
+import type { Color } from "./types"
+
+/** The Tailwind shade names, lightest first. */
+export const SCALE_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const
+
+export type ScaleStep = (typeof SCALE_STEPS)[number]
+
+export type ScaleCurve = "linear" | "eased" | "tailwind"
+
+export const SCALE_CURVES: { id: ScaleCurve; label: string }[] = [
+  { id: "linear", label: "Linear" },
+  { id: "eased", label: "Eased" },
+  { id: "tailwind", label: "Tailwind-like" },
+]
+
+export interface ScaleStop {
+  step: ScaleStep
+  value: string
+}
+
+const LIGHTEST = 0.975
+const DARKEST = 0.26
+
+// OKLCH lightness and relative chroma of Tailwind v4's default palette, averaged across hues
+const TAILWIND_LIGHTNESS = [0.975, 0.935, 0.885, 0.81, 0.71, 0.63, 0.55, 0.49, 0.425, 0.375, 0.28]
+const TAILWIND_CHROMA = [0.08, 0.18, 0.32, 0.55, 0.82, 1, 1.05, 0.98, 0.82, 0.66, 0.45]
+
+const easeInOut = (t: number) => (1 - Math.cos(Math.PI * t)) / 2
+
+/** Index of the step whose reference lightness is closest to `l`. */
+function anchorIndex(l: number): number {
+  let best = 0
+  TAILWIND_LIGHTNESS.forEach((reference, i) => {
+    if (Math.abs(reference - l) < Math.abs(TAILWIND_LIGHTNESS[best] - l)) best = i
+  })
+  return best
+}
+
+/**
+ * Builds an 11-step 50–950 ramp in OKLCH. The base color lands unchanged on the step whose
+ * lightness it is closest to; the other steps keep its hue and are fitted into sRGB by
+ * reducing chroma.
+ */
+export function generateScale(base: Color, curve: ScaleCurve): ScaleStop[] {
+  const { l, c, h } = toOklch(base)
+  const anchor = anchorIndex(l)
+  const last = SCALE_STEPS.length - 1
+
+  return SCALE_STEPS.map((step, i) => {
+    if (i === anchor) return { step, value: formatHex(base) }
+
+    // Distance from the anchor towards the nearer end of the ramp, 0–1
+    const t = i < anchor ? (anchor - i) / anchor : (i - anchor) / (last - anchor)
+    const end = i < anchor ? LIGHTEST : DARKEST
+
+    let lightness: number
+    let chroma: number
+    switch (curve) {
+      case "linear":
+        lightness = l + (end - l) * t
+        chroma = c * (1 - 0.7 * t)
+        break
+      case "eased":
+        lightness = l + (end - l) * easeInOut(t)
+        chroma = c * (1 - 0.7 * easeInOut(t))
+        break
+      case "tailwind":
+        // Follow the reference curve, blending out the base's offset from it towards the ends
+        lightness = TAILWIND_LIGHTNESS[i] + (l - TAILWIND_LIGHTNESS[anchor]) * (1 - t)
+        chroma = (c * TAILWIND_CHROMA[i]) / TAILWIND_CHROMA[anchor]
+        break
+    }
+
+    return { step, value: formatHex(oklchToGamut({ l: lightness, c: chroma, h }, base.alpha)) }
+  })
+}
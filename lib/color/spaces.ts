@@ -0,0 +1,112 @@
+import {
+  fromCmyk,
+  fromHsl,
+  fromHsv,
+  fromLab,
+  fromLch,
+  fromOklch,
+  fromRgb,
+  toCmyk,
+  toHsl,
+  toHsv,
+  toLab,
+  toLch,
+  toOklch,
+  toRgb,
+} from "./convert"
+import type { Color } from "./types"
+
+export interface ChannelSpec {
+  key: string
+  label: string
+  min: number
+  max: number
+  step: number
+  /** Decimals shown when displaying the channel. */
+  digits: number
+  unit?: string
+}
+
+/** Describes an editable color space: its channels and how to get in and out of it. */
+export interface ColorSpaceSpec {
+  id: string
+  label: string
+  channels: ChannelSpec[]
+  to: (color: Color) => Record<string, number>
+  from: (values: Record<string, number>, alpha: number) => Color
+}
+
+const hue: ChannelSpec = { key: "h", label: "H", min: 0, max: 360, step: 1, digits: 1, unit: "°" }
+const percent = (key: string, label: string): ChannelSpec => ({
+  key,
+  label,
+  min: 0,
+  max: 100,
+  step: 1,
+  digits: 1,
+  unit: "%",
+})
+
+export const COLOR_SPACES: ColorSpaceSpec[] = [
+  {
+    id: "rgb",
+    label: "RGB",
+    channels: ["r", "g", "b"].map((key) => ({ key, label: key.toUpperCase(), min: 0, max: 255, step: 1, digits: 0 })),
+    to: (color) => ({ ...toRgb(color) }),
+    from: ({ r, g, b }, alpha) => fromRgb({ r, g, b }, alpha),
+  },
+  {
+    id: "hsl",
+    label: "HSL",
+    channels: [hue, percent("s", "S"), percent("l", "L")],
+    to: (color) => ({ ...toHsl(color) }),
+    from: ({ h, s, l }, alpha) => fromHsl({ h, s, l }, alpha),
+  },
+  {
+    id: "hsv",
+    label: "HSV",
+    channels: [hue, percent("s", "S"), percent("v", "V")],
+    to: (color) => ({ ...toHsv(color) }),
+    from: ({ h, s, v }, alpha) => fromHsv({ h, s, v }, alpha),
+  },
+  {
+    id: "cmyk",
+    label: "CMYK",
+    channels: [percent("c", "C"), percent("m", "M"), percent("y", "Y"), percent("k", "K")],
+    to: (color) => ({ ...toCmyk(color) }),
+    from: ({ c, m, y, k }, alpha) => fromCmyk({ c, m, y, k }, alpha),
+  },
+  {
+    id: "lab",
+    label: "Lab",
+    channels: [
+      { key: "l", label: "L", min: 0, max: 100, step: 1, digits: 2 },
+      { key: "a", label: "a", min: -125, max: 125, step: 1, digits: 2 },
+      { key: "b", label: "b", min: -125, max: 125, step: 1, digits: 2 },
+    ],
+    to: (color) => ({ ...toLab(color) }),
+    from: ({ l, a, b }, alpha) => fromLab({ l, a, b }, alpha),
+  },
+  {
+    id: "lch",
+    label: "LCH",
+    channels: [
+      { key: "l", label: "L", min: 0, max: 100, step: 1, digits: 2 },
+      { key: "c", label: "C", min: 0, max: 150, step: 1, digits: 2 },
+      { ...hue, digits: 2 },
+    ],
+    to: (color) => ({ ...toLch(color) }),
+    from: ({ l, c, h }, alpha) => fromLch({ l, c, h }, alpha),
+  },
+  {
+    id: "oklch",
+    label: "OKLCH",
+    channels: [
+      { key: "l", label: "L", min: 0, max: 1, step: 0.01, digits: 4 },
+      { key: "c", label: "C", min: 0, max: 0.4, step: 0.005, digits: 4 },
+      { ...hue, digits: 2 },
+    ],
+    to: (color) => ({ ...toOklch(color) }),
+    from: ({ l, c, h }, alpha) => fromOklch({ l, c, h }, alpha),
+  },
+]
@@ -0,0 +1,74 @@
+/**
+ * A color in gamma-encoded sRGB. Channels are nominally 0–1 but may fall
+ * outside that range for colors converted from wider spaces.
+ */
+export interface Color {
+  r: number
+  g: number
+  b: number
+  alpha: number
+}
+
+/** sRGB with 0–255 channels. */
+export interface Rgb {
+  r: number
+  g: number
+  b: number
+}
+
+/** Hue in degrees, saturation and lightness in percent. */
+export interface Hsl {
+  h: number
+  s: number
+  l: number
+}
+
+/** Hue in degrees, saturation and value in percent. */
+export interface Hsv {
+  h: number
+  s: number
+  v: number
+}
+
+/** Hue in degrees, whiteness and blackness in percent. */
+export interface Hwb {
+  h: number
+  w: number
+  b: number
+}
+
+/** Naive device CMYK, all channels in percent. */
+export interface Cmyk {
+  c: number
+  m: number
+  y: number
+  k: number
+}
+
+/** CIE Lab relative to D50, lightness 0–100. */
+export interface Lab {
+  l: number
+  a: number
+  b: number
+}
+
+/** Polar form of CIE Lab, hue in degrees. */
+export interface Lch {
+  l: number
+  c: number
+  h: number
+}
+
+/** OKLab, lightness 0–1. */
+export interface Oklab {
+  l: number
+  a: number
+  b: number
+}
+
+/** Polar form of OKLab, hue in degrees. */
+export interface Oklch {
+  l: number
+  c: number
+  h: number
+}
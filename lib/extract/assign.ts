@@ -0,0 +1,37 @@
+import { fromRgb, toOklab, type Color } from "@/lib/color"
+
+/** Label for pixels that belong to no color: transparent or outside the selection. */
+export const UNASSIGNED = 255
+
+/**
+ * Labels each packed RGBA pixel with the index of its nearest color in OKLab, so the pixels
+ * behind an extracted color can be located. Supports up to 255 colors.
+ */
+export function assignPixels(pixels: Uint8ClampedArray, colors: Color[]): Uint8Array {
+  const targets = colors.map(toOklab)
+  const labels = new Uint8Array(pixels.length / 4).fill(UNASSIGNED)
+  // Photos repeat colors heavily, so each distinct RGB value is matched once
+  const cache = new Map<number, number>()
+
+  for (let i = 0; i < labels.length; i++) {
+    const offset = i * 4
+    if (pixels[offset + 3] === 0) continue
+    const key = (pixels[offset] << 16) | (pixels[offset + 1] << 8) | pixels[offset + 2]
+    let label = cache.get(key)
+    if (label === undefined) {
+      const lab = toOklab(fromRgb({ r: pixels[offset], g: pixels[offset + 1], b: pixels[offset + 2] }))
+      let best = Infinity
+      label = UNASSIGNED
+      targets.forEach((target, index) => {
+        const distance = (lab.l - target.l) ** 2 + (lab.a - target.a) ** 2 + (lab.b - target.b) ** 2
+        if (distance < best) {
+          best = distance
+          label = index
+        }
+      })
+      cache.set(key, label)
+    }
+    labels[i] = label
+  }
+  return labels
+}
@@ -0,0 +1,16 @@
+import { extractColors } from "./pipeline"
+import type { ExtractionRequest, ExtractionResponse } from "./types"
+
+const respond = (response: ExtractionResponse) => self.postMessage(response)
+
+self.addEventListener("message", (event: MessageEvent<ExtractionRequest>) => {
+  const { sources, options } = event.data
+  try {
+    const result = extractColors(sources, options, (progress) => respond({ type: "progress", progress }))
+    respond({ type: "done", ...result })
+  } catch (error) {
+    respond({ type: "error", message: error instanceof Error ? error.message : String(error) })
+  } finally {
+    sources.forEach(({ bitmap }) => bitmap.close())
+  }
+})
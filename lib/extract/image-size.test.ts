@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest"
+import { readImageSize } from "./image-size"
+
+const bytes = (...parts: (number[] | string)[]) =>
+  new Blob([new Uint8Array(parts.flatMap((part) => (typeof part === "string" ? [...part].map((c) => c.charCodeAt(0)) : part)))])
+
+const be16 = (n: number) => [n >> 8, n & 0xff]
+const be32 = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff]
+const le16 = (n: number) => [n & 0xff, n >> 8]
+const le24 = (n: number) => [n & 0xff, (n >> 8) & 0xff, n >> 16]
+const le32 = (n: number) => [...le16(n & 0xffff), ...le16(n >>> 16)]
+
+const png = (width: number, height: number) =>
+  bytes([0x89], "PNG\r\n\x1a\n", be32(13), "IHDR", be32(width), be32(height), [8, 6, 0, 0, 0], be32(0))
+
+function jpeg(width: number, height: number, orientation?: number) {
+  const segments: number[][] = []
+  if (orientation !== undefined) {
+    // Big-endian TIFF with a single IFD entry
+    const exif = [
+      ..."Exif\0\0".split("").map((c) => c.charCodeAt(0)),
+      ..."MM".split("").map((c) => c.charCodeAt(0)),
+      ...be16(42),
+      ...be32(8),
+      ...be16(1),
+      ...be16(0x0112),
+      ...be16(3),
+      ...be32(1),
+      ...be16(orientation),
+      0,
+      0,
+      ...be32(0),
+    ]
+    segments.push([0xff, 0xe1, ...be16(exif.length + 2), ...exif])
+  }
+  segments.push([0xff, 0xdb, ...be16(4), 0, 0])
+  segments.push([0xff, 0xc2, ...be16(11), 8, ...be16(height), ...be16(width), 1, 1, 0x11, 0])
+  segments.push([0xff, 0xda, ...be16(2)])
+  return bytes([0xff, 0xd8], ...segments, new Array(16).fill(0))
+}
+
+describe("readImageSize", () => {
+  it("reads PNG headers", async () => {
+    expect(await readImageSize(png(6000, 4000))).toEqual({ width: 6000, height: 4000 })
+  })
+
+  it("reads GIF headers", async () => {
+    expect(await readImageSize(bytes("GIF89a", le16(320), le16(200), new Array(20).fill(0)))).toEqual({
+      width: 320,
+      height: 200,
+    })
+  })
+
+  it("reads extended WebP headers", async () => {
+    const webp = bytes("RIFF", le32(30), "WEBP", "VP8X", le32(10), [0, 0, 0, 0], le24(7999), le24(5999))
+    expect(await readImageSize(webp)).toEqual({ width: 8000, height: 6000 })
+  })
+
+  it("reads JPEG frame headers past other segments", async () => {
+    expect(await readImageSize(jpeg(5000, 3000))).toEqual({ width: 5000, height: 3000 })
+  })
+
+  it("swaps JPEG sizes for quarter-turn EXIF orientations", async () => {
+    expect(await readImageSize(jpeg(5000, 3000, 6))).toEqual({ width: 3000, height: 5000 })
+    expect(await readImageSize(jpeg(5000, 3000, 3))).toEqual({ width: 5000, height: 3000 })
+  })
+
+  it("returns null for unknown or truncated files", async () => {
+    expect(await readImageSize(bytes("<svg xmlns='http://www.w3.org/2000/svg'></svg>"))).toBeNull()
+    expect(await readImageSize(bytes([0x89], "PNG"))).toBeNull()
+    expect(await readImageSize(jpeg(5000, 3000, 6).slice(0, 48))).toBeNull()
+  })
+})
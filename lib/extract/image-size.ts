@@ -0,0 +1,126 @@
+export interface ImageSize {
+  width: number
+  height: number
+}
+
+// Start-of-frame markers carry the image size; 0xc4, 0xc8 and 0xcc share the range but do not
+const JPEG_FRAME_MARKERS = new Set([0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf])
+const JPEG_SCAN_MARKER = 0xda
+const JPEG_APP1_MARKER = 0xe1
+const EXIF_ORIENTATION_TAG = 0x0112
+
+async function readView(blob: Blob, offset: number, length: number): Promise<DataView> {
+  return new DataView(await blob.slice(offset, offset + length).arrayBuffer())
+}
+
+const ascii = (view: DataView, offset: number, length: number): string =>
+  String.fromCharCode(...Array.from({ length }, (_, i) => view.getUint8(offset + i)))
+
+const uint24 = (view: DataView, offset: number): number =>
+  view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getUint8(offset + 2) << 16)
+
+/**
+ * Reads the pixel size of a PNG, JPEG, GIF, WebP or BMP file from its header without decoding
+ * any pixels. JPEG sizes are swapped when EXIF orientation turns the image a quarter turn, so
+ * they match what `imageOrientation: "from-image"` produces. Returns null for other formats
+ * and for headers that cannot be read.
+ */
+export async function readImageSize(blob: Blob): Promise<ImageSize | null> {
+  try {
+    const size = await readHeader(blob)
+    return size && size.width > 0 && size.height > 0 ? size : null
+  } catch {
+    // A truncated header reads past the end of its view
+    return null
+  }
+}
+
+async function readHeader(blob: Blob): Promise<ImageSize | null> {
+  const head = await readView(blob, 0, 30)
+  if (head.byteLength < 26) return null
+
+  if (head.getUint32(0) === 0x89504e47) return { width: head.getUint32(16), height: head.getUint32(20) }
+  if (ascii(head, 0, 3) === "GIF") return { width: head.getUint16(6, true), height: head.getUint16(8, true) }
+  if (ascii(head, 0, 2) === "BM") {
+    // Negative heights mark top-down bitmaps
+    return { width: Math.abs(head.getInt32(18, true)), height: Math.abs(head.getInt32(22, true)) }
+  }
+  if (ascii(head, 0, 4) === "RIFF" && ascii(head, 8, 4) === "WEBP") return readWebpSize(head)
+  if (head.getUint16(0) === 0xffd8) return readJpegSize(blob)
+  return null
+}
+
+function readWebpSize(head: DataView): ImageSize | null {
+  switch (ascii(head, 12, 4)) {
+    case "VP8 ":
+      // Lossy: 14-bit sizes follow the frame tag and start code
+      return { width: head.getUint16(26, true) & 0x3fff, height: head.getUint16(28, true) & 0x3fff }
+    case "VP8L": {
+      // Lossless: 14-bit sizes minus one, packed after the signature byte
+      const bits = head.getUint32(21, true)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    case "VP8X":
+      // Extended: 24-bit canvas size minus one
+      return { width: uint24(head, 24) + 1, height: uint24(head, 27) + 1 }
+    default:
+      return null
+  }
+}
+
+/** Walks the segments before the first scan, reading one small slice per segment. */
+async function readJpegSize(blob: Blob): Promise<ImageSize | null> {
+  let orientation = 1
+  let offset = 2
+
+  while (offset + 4 <= blob.size) {
+    const segment = await readView(blob, offset, 4)
+    if (segment.getUint8(0) !== 0xff) return null
+    const marker = segment.getUint8(1)
+    // Markers may be padded with any number of 0xff fill bytes
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === JPEG_SCAN_MARKER) return null
+
+    const length = segment.getUint16(2)
+    if (JPEG_FRAME_MARKERS.has(marker)) {
+      // Sample precision comes first, then height and width
+      const frame = await readView(blob, offset + 5, 4)
+      const height = frame.getUint16(0)
+      const width = frame.getUint16(2)
+      return orientation >= 5 ? { width: height, height: width } : { width, height }
+    }
+    if (marker === JPEG_APP1_MARKER) {
+      orientation = readExifOrientation(await readView(blob, offset + 4, length - 2)) ?? orientation
+    }
+    offset += 2 + length
+  }
+  return null
+}
+
+/**
+ * The orientation tag of an APP1 segment's first IFD, or null when the segment is not EXIF
+ * or is malformed. A broken tag should not cost the size read from the frame header.
+ */
+function readExifOrientation(data: DataView): number | null {
+  if (data.byteLength < 14 || ascii(data, 0, 4) !== "Exif") return null
+
+  try {
+    const tiff = 6
+    const littleEndian = ascii(data, tiff, 2) === "II"
+    const ifd = tiff + data.getUint32(tiff + 4, littleEndian)
+    const count = data.getUint16(ifd, littleEndian)
+
+    for (let i = 0; i < count; i++) {
+      const entry = ifd + 2 + i * 12
+      if (data.getUint16(entry, littleEndian) !== EXIF_ORIENTATION_TAG) continue
+      const orientation = data.getUint16(entry + 8, littleEndian)
+      return orientation >= 1 && orientation <= 8 ? orientation : null
+    }
+  } catch {
+    // Offsets pointing past the segment
+  }
+  return null
+}
@@ -0,0 +1,47 @@
+import { DEFAULT_QUANTIZER } from "@/lib/quantize"
+import type { ExtractionOptions } from "./types"
+
+export { UNASSIGNED, assignPixels } from "./assign"
+export { extractColors } from "./pipeline"
+export {
+  EXTRACTION_MODES,
+  SWATCH_PROFILES,
+  classifyCluster,
+  rankClusters,
+  type ExtractionMode,
+  type RankedCluster,
+  type SwatchProfile,
+} from "./profiles"
+export {
+  EMPTY_SELECTION,
+  applyMask,
+  createRegionId,
+  isSelectionEmpty,
+  rasterizeSelection,
+  rectFromCorners,
+  translateRegion,
+  type MaskStroke,
+  type Point,
+  type Region,
+  type RegionSelection,
+} from "./region"
+export { createSampleBitmap, loadSourceImage, releaseSourceImage, type SourceImage } from "./source"
+export type {
+  ExtractedColor,
+  ExtractionOptions,
+  ExtractionRequest,
+  ExtractionResponse,
+  ExtractionResult,
+  ExtractionSource,
+} from "./types"
+
+export const DEFAULT_EXTRACTION: ExtractionOptions = {
+  mode: "dominant",
+  quantizer: DEFAULT_QUANTIZER,
+  colorCount: 5,
+  maxSize: 300,
+  stride: 4,
+  mergeThreshold: 5,
+  deltaE: "2000",
+  gamutMap: false,
+}
@@ -0,0 +1,139 @@
+import {
+  formatDisplayP3,
+  formatHex,
+  fromPredefined,
+  isInGamut,
+  oklchToGamut,
+  toOklch,
+  type Color,
+} from "@/lib/color"
+import { mergeSimilarClusters, quantize, samplePixels } from "@/lib/quantize"
+import { rankClusters } from "./profiles"
+import { applyMask, isSelectionEmpty, rasterizeSelection } from "./region"
+import type { ExtractedColor, ExtractionOptions, ExtractionResult, ExtractionSource } from "./types"
+
+const MAX_CANDIDATES = 64
+// Android's Palette quantizes to 16 colors before picking its targets
+const PROFILE_CANDIDATES = 16
+// How far outside sRGB a Display-P3 pixel must fall to count as wide gamut, absorbing 8-bit rounding
+const GAMUT_TOLERANCE = 0.01
+
+/**
+ * Over-quantizes when merging or ranking by profile, so the colors kept are actually
+ * distinct and a profile has enough candidates to pick from.
+ */
+function candidateCount({ mode, colorCount, mergeThreshold }: ExtractionOptions): number {
+  if (mode !== "dominant") return Math.min(Math.max(colorCount * 4, PROFILE_CANDIDATES), MAX_CANDIDATES)
+  if (mergeThreshold > 0) return Math.min(colorCount * 2, MAX_CANDIDATES)
+  return colorCount
+}
+
+/**
+ * Scales one source down onto an OffscreenCanvas and samples its selected pixels in the
+ * given color space. Returns null when the browser cannot read pixels in that space.
+ */
+function sampleSource(
+  { bitmap, selection }: ExtractionSource,
+  options: ExtractionOptions,
+  colorSpace: PredefinedColorSpace,
+): Uint8ClampedArray | null {
+  const ratio = Math.min(1, options.maxSize / bitmap.width, options.maxSize / bitmap.height)
+  const width = Math.max(1, Math.round(bitmap.width * ratio))
+  const height = Math.max(1, Math.round(bitmap.height * ratio))
+
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext("2d", { willReadFrequently: true, colorSpace })
+  if (!ctx) throw new Error("2D canvas context is not available")
+  ctx.drawImage(bitmap, 0, 0, width, height)
+
+  const image = ctx.getImageData(0, 0, width, height, { colorSpace })
+  if ((image.colorSpace ?? "srgb") !== colorSpace) return null
+  if (!isSelectionEmpty(selection)) applyMask(image.data, rasterizeSelection(selection, width, height))
+  return samplePixels(image.data, options.stride)
+}
+
+const fromP3 = (r: number, g: number, b: number, alpha = 1) => fromPredefined("display-p3", [r, g, b], alpha)
+
+/** Whether any Display-P3 pixel lies outside sRGB. Each distinct pixel is converted once. */
+function hasWideGamutPixels(pixels: Uint8ClampedArray): boolean {
+  const seen = new Set<number>()
+  for (let i = 0; i < pixels.length; i += 4) {
+    const key = (pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2]
+    if (seen.has(key)) continue
+    seen.add(key)
+    if (!isInGamut(fromP3(pixels[i] / 255, pixels[i + 1] / 255, pixels[i + 2] / 255), GAMUT_TOLERANCE)) return true
+  }
+  return false
+}
+
+/**
+ * Reads every source as Display-P3 first, so wide-gamut images keep their most saturated
+ * colors. When none of them actually leaves sRGB they are read again in sRGB, which is
+ * exact for ordinary images.
+ */
+function sampleSources(
+  sources: ExtractionSource[],
+  options: ExtractionOptions,
+  onProgress: (progress: number) => void,
+): { samples: Uint8ClampedArray[]; wideGamut: boolean } {
+  const read = (colorSpace: PredefinedColorSpace, from: number, to: number) =>
+    sources.map((source, i) => {
+      const sampled = sampleSource(source, options, colorSpace)
+      onProgress(from + ((to - from) * (i + 1)) / sources.length)
+      return sampled
+    })
+
+  const wide = read("display-p3", 0, 0.2)
+  if (wide.every((sample): sample is Uint8ClampedArray => sample !== null) && wide.some(hasWideGamutPixels)) {
+    return { samples: wide, wideGamut: true }
+  }
+  return { samples: read("srgb", 0.2, 0.4).map((sample) => sample!), wideGamut: false }
+}
+
+/**
+ * In-gamut colors are plain hex. Wide-gamut ones are either mapped into sRGB by reducing
+ * chroma, or kept exact as a `color(display-p3 …)` input with a clipped hex for display.
+ */
+function toExtractedValue(color: Color, gamutMap: boolean): Pick<ExtractedColor, "value" | "input"> {
+  if (isInGamut(color, GAMUT_TOLERANCE / 10)) return { value: formatHex(color) }
+  if (gamutMap) return { value: formatHex(oklchToGamut(toOklch(color), color.alpha)) }
+  return { value: formatHex(color), input: formatDisplayP3(color) }
+}
+
+/**
+ * Samples every source and pools the pixels, quantizes them and merges perceptual
+ * near-duplicates, then ranks what is left for the chosen mode.
+ * `onProgress` receives 0–1 as each stage finishes.
+ */
+export function extractColors(
+  sources: ExtractionSource[],
+  options: ExtractionOptions,
+  onProgress: (progress: number) => void = () => {},
+): ExtractionResult {
+  const { samples, wideGamut } = sampleSources(sources, options, onProgress)
+  const pixels = new Uint8ClampedArray(samples.reduce((n, sample) => n + sample.length, 0))
+  samples.reduce((offset, sample) => {
+    pixels.set(sample, offset)
+    return offset + sample.length
+  }, 0)
+
+  let clusters = quantize(options.quantizer, pixels, candidateCount(options))
+  if (wideGamut) {
+    clusters = clusters.map((cluster) => {
+      const { r, g, b, alpha } = cluster.color
+      return { ...cluster, color: fromP3(r, g, b, alpha) }
+    })
+  }
+  onProgress(0.8)
+
+  const merged = mergeSimilarClusters(clusters, options.mergeThreshold, options.deltaE)
+  const colors = rankClusters(merged, options.mode)
+    .slice(0, options.colorCount)
+    .map(({ cluster, profile }) => ({
+      ...toExtractedValue(cluster.color, options.gamutMap),
+      share: cluster.share,
+      profile,
+    }))
+  onProgress(1)
+  return { colors, wideGamut }
+}
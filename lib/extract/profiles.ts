@@ -0,0 +1,109 @@
+import { toHsl, toOklch } from "@/lib/color"
+import type { ColorCluster } from "@/lib/quantize"
+
+export type SwatchProfile =
+  | "vibrant"
+  | "light-vibrant"
+  | "dark-vibrant"
+  | "muted"
+  | "light-muted"
+  | "dark-muted"
+
+export type ExtractionMode = "dominant" | "accent" | SwatchProfile
+
+interface Range {
+  min: number
+  target: number
+  max: number
+}
+
+interface ProfileSpec {
+  id: SwatchProfile
+  label: string
+  /** HSL saturation and lightness, 0–1. */
+  saturation: Range
+  lightness: Range
+}
+
+// Targets and weights follow Android's Palette library
+const VIBRANT_SATURATION: Range = { min: 0.35, target: 1, max: 1 }
+const MUTED_SATURATION: Range = { min: 0, target: 0.3, max: 0.4 }
+const LIGHT: Range = { min: 0.55, target: 0.74, max: 1 }
+const NORMAL: Range = { min: 0.3, target: 0.5, max: 0.7 }
+const DARK: Range = { min: 0, target: 0.26, max: 0.45 }
+
+const WEIGHT_SATURATION = 0.24
+const WEIGHT_LIGHTNESS = 0.52
+const WEIGHT_POPULATION = 0.24
+
+export const SWATCH_PROFILES: ProfileSpec[] = [
+  { id: "vibrant", label: "Vibrant", saturation: VIBRANT_SATURATION, lightness: NORMAL },
+  { id: "light-vibrant", label: "Light Vibrant", saturation: VIBRANT_SATURATION, lightness: LIGHT },
+  { id: "dark-vibrant", label: "Dark Vibrant", saturation: VIBRANT_SATURATION, lightness: DARK },
+  { id: "muted", label: "Muted", saturation: MUTED_SATURATION, lightness: NORMAL },
+  { id: "light-muted", label: "Light Muted", saturation: MUTED_SATURATION, lightness: LIGHT },
+  { id: "dark-muted", label: "Dark Muted", saturation: MUTED_SATURATION, lightness: DARK },
+]
+
+export const EXTRACTION_MODES: { id: ExtractionMode; label: string }[] = [
+  { id: "dominant", label: "Dominant" },
+  { id: "accent", label: "Accent" },
+  ...SWATCH_PROFILES.map(({ id, label }) => ({ id, label })),
+]
+
+export interface RankedCluster {
+  cluster: ColorCluster
+  profile: SwatchProfile | null
+}
+
+const within = (value: number, { min, max }: Range) => value >= min && value <= max
+
+/** Android-style target score, or -Infinity when the color falls outside the profile's ranges. */
+function profileScore(cluster: ColorCluster, spec: ProfileSpec, maxCount: number): number {
+  const hsl = toHsl(cluster.color)
+  const s = hsl.s / 100
+  const l = hsl.l / 100
+  if (!within(s, spec.saturation) || !within(l, spec.lightness)) return -Infinity
+  return (
+    WEIGHT_SATURATION * (1 - Math.abs(s - spec.saturation.target)) +
+    WEIGHT_LIGHTNESS * (1 - Math.abs(l - spec.lightness.target)) +
+    WEIGHT_POPULATION * (cluster.count / maxCount)
+  )
+}
+
+/** The profile a cluster fits best, or null when it fits none (e.g. near-white or near-black). */
+export function classifyCluster(cluster: ColorCluster, maxCount = cluster.count): SwatchProfile | null {
+  let best: SwatchProfile | null = null
+  let bestScore = -Infinity
+  for (const spec of SWATCH_PROFILES) {
+    const score = profileScore(cluster, spec, maxCount)
+    if (score > bestScore) {
+      bestScore = score
+      best = spec.id
+    }
+  }
+  return best
+}
+
+/**
+ * Orders clusters for the chosen mode: by population for "dominant", by OKLCH chroma ×
+ * share for "accent", or by target score for a profile, keeping only clusters inside its ranges.
+ */
+export function rankClusters(clusters: ColorCluster[], mode: ExtractionMode): RankedCluster[] {
+  const maxCount = Math.max(1, ...clusters.map((c) => c.count))
+  const label = (cluster: ColorCluster): RankedCluster => ({ cluster, profile: classifyCluster(cluster, maxCount) })
+
+  if (mode === "dominant") return [...clusters].sort((a, b) => b.count - a.count).map(label)
+
+  if (mode === "accent") {
+    const accent = (c: ColorCluster) => toOklch(c.color).c * c.share
+    return [...clusters].sort((a, b) => accent(b) - accent(a)).map(label)
+  }
+
+  const spec = SWATCH_PROFILES.find((p) => p.id === mode)!
+  return clusters
+    .map((cluster) => ({ cluster, score: profileScore(cluster, spec, maxCount) }))
+    .filter(({ score }) => score > -Infinity)
+    .sort((a, b) => b.score - a.score)
+    .map(({ cluster }) => ({ cluster, profile: spec.id }))
+}
@@ -0,0 +1,118 @@
+/** A position on the image, as a fraction of its width and height. */
+export interface Point {
+  x: number
+  y: number
+}
+
+export type Region =
+  | { id: string; kind: "rect"; x: number; y: number; width: number; height: number }
+  | { id: string; kind: "lasso"; points: Point[] }
+
+/** A brush stroke painted over pixels to leave out. */
+export interface MaskStroke {
+  points: Point[]
+  /** Brush radius as a fraction of the image's longer side. */
+  radius: number
+}
+
+/**
+ * Which pixels extraction reads: those inside any region (or the whole image when there
+ * are none), minus everything under a mask stroke.
+ */
+export interface RegionSelection {
+  regions: Region[]
+  mask: MaskStroke[]
+}
+
+export const EMPTY_SELECTION: RegionSelection = { regions: [], mask: [] }
+
+let nextRegionId = 0
+
+export const createRegionId = () => `region-${++nextRegionId}`
+
+export const isSelectionEmpty = ({ regions, mask }: RegionSelection) => regions.length === 0 && mask.length === 0
+
+/** Moves a region by a fraction of the image, keeping it inside the image. */
+export function translateRegion(region: Region, dx: number, dy: number): Region {
+  if (region.kind === "rect") {
+    return {
+      ...region,
+      x: Math.min(Math.max(region.x + dx, 0), 1 - region.width),
+      y: Math.min(Math.max(region.y + dy, 0), 1 - region.height),
+    }
+  }
+  const xs = region.points.map((p) => p.x)
+  const ys = region.points.map((p) => p.y)
+  const clampedDx = Math.min(Math.max(dx, -Math.min(...xs)), 1 - Math.max(...xs))
+  const clampedDy = Math.min(Math.max(dy, -Math.min(...ys)), 1 - Math.max(...ys))
+  return { ...region, points: region.points.map((p) => ({ x: p.x + clampedDx, y: p.y + clampedDy })) }
+}
+
+/** Rectangle spanning two corners, in either order. */
+export function rectFromCorners(id: string, a: Point, b: Point): Region {
+  return {
+    id,
+    kind: "rect",
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  }
+}
+
+/**
+ * Paints the selection at `width`×`height` and returns one byte per pixel, 255 where the
+ * pixel is selected. Anti-aliased edges are thresholded so a pixel is either in or out.
+ */
+export function rasterizeSelection(selection: RegionSelection, width: number, height: number): Uint8Array {
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("2D canvas context is not available")
+
+  ctx.fillStyle = "#000"
+  if (selection.regions.length === 0) {
+    ctx.fillRect(0, 0, width, height)
+  } else {
+    for (const region of selection.regions) {
+      ctx.beginPath()
+      if (region.kind === "rect") {
+        ctx.rect(region.x * width, region.y * height, region.width * width, region.height * height)
+      } else {
+        region.points.forEach(({ x, y }, i) => (i === 0 ? ctx.moveTo(x * width, y * height) : ctx.lineTo(x * width, y * height)))
+        ctx.closePath()
+      }
+      ctx.fill()
+    }
+  }
+
+  ctx.globalCompositeOperation = "destination-out"
+  ctx.lineCap = "round"
+  ctx.lineJoin = "round"
+  const side = Math.max(width, height)
+  for (const { points, radius } of selection.mask) {
+    if (points.length === 0) continue
+    const brush = radius * side
+    ctx.beginPath()
+    if (points.length === 1) {
+      // Canvas prunes zero-length segments, so a single dab is drawn as a disc
+      ctx.arc(points[0].x * width, points[0].y * height, brush, 0, Math.PI * 2)
+      ctx.fill()
+      continue
+    }
+    ctx.lineWidth = brush * 2
+    points.forEach(({ x, y }, i) => (i === 0 ? ctx.moveTo(x * width, y * height) : ctx.lineTo(x * width, y * height)))
+    ctx.stroke()
+  }
+
+  const { data } = ctx.getImageData(0, 0, width, height)
+  const mask = new Uint8Array(width * height)
+  for (let i = 0; i < mask.length; i++) mask[i] = data[i * 4 + 3] >= 128 ? 255 : 0
+  return mask
+}
+
+/** Makes every pixel outside the mask fully transparent, so sampling skips it. */
+export function applyMask(pixels: Uint8ClampedArray, mask: Uint8Array): void {
+  for (let i = 0; i < mask.length; i++) {
+    if (mask[i] === 0) pixels[i * 4 + 3] = 0
+  }
+}
@@ -0,0 +1,101 @@
+import { readImageSize, type ImageSize } from "./image-size"
+import { EMPTY_SELECTION } from "./region"
+import type { ExtractionSource } from "./types"
+
+/** An image loaded into the extractor, with the regions drawn on it. */
+export interface SourceImage extends ExtractionSource {
+  id: string
+  name: string
+  /** Object URL of the original file, for thumbnails. */
+  thumbnail: string
+}
+
+const MAX_FILE_SIZE_MB = 50
+// Longest side kept after decoding; extraction never samples more than a few hundred pixels across
+const MAX_DIMENSION = 4096
+// Used when an image (typically an SVG) has no intrinsic size
+const FALLBACK_DIMENSION = 1024
+
+let nextImageId = 0
+
+function loadImageElement(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error("The file could not be decoded as an image"))
+    image.src = url
+  })
+}
+
+/** Resize options that keep the longest side within MAX_DIMENSION. */
+function fitWithin({ width, height }: ImageSize): ImageBitmapOptions {
+  const ratio = Math.min(1, MAX_DIMENSION / Math.max(width, height))
+  return {
+    resizeWidth: Math.max(1, Math.round(width * ratio)),
+    resizeHeight: Math.max(1, Math.round(height * ratio)),
+    resizeQuality: "high",
+  }
+}
+
+/**
+ * Decodes the file itself at its final size, so a large image never exists at full
+ * resolution. Formats whose header gives no size are decoded once and scaled afterwards.
+ */
+async function decodeBlob(file: File): Promise<ImageBitmap> {
+  const size = await readImageSize(file)
+  if (size) return createImageBitmap(file, { imageOrientation: "from-image", ...fitWithin(size) })
+
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  if (Math.max(bitmap.width, bitmap.height) <= MAX_DIMENSION) return bitmap
+  try {
+    return await createImageBitmap(bitmap, fitWithin(bitmap))
+  } finally {
+    bitmap.close()
+  }
+}
+
+/** Fallback for files browsers cannot decode from a Blob, notably SVG. */
+async function decodeElement(url: string): Promise<ImageBitmap> {
+  // The element's natural size already reflects EXIF orientation
+  const element = await loadImageElement(url)
+  const size = { width: element.naturalWidth || FALLBACK_DIMENSION, height: element.naturalHeight || FALLBACK_DIMENSION }
+
+  return createImageBitmap(element, { imageOrientation: "from-image", ...fitWithin(size) }).catch(() => {
+    throw new Error("The image is too large to decode")
+  })
+}
+
+/**
+ * Decodes an image file into a bitmap, honouring its EXIF orientation and scaling very
+ * large images down during decoding. Rejects with a readable message on failure.
+ */
+export async function loadSourceImage(file: File): Promise<SourceImage> {
+  if (file.size > MAX_FILE_SIZE_MB * 1024 * 1024) {
+    throw new Error(`Files larger than ${MAX_FILE_SIZE_MB} MB are not supported`)
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const bitmap = await decodeBlob(file).catch(() => decodeElement(url))
+    return { id: `image-${++nextImageId}`, name: file.name, bitmap, thumbnail: url, selection: EMPTY_SELECTION }
+  } catch (error) {
+    URL.revokeObjectURL(url)
+    throw error
+  }
+}
+
+/** Scales a bitmap down to the size extraction samples at, so a worker receives only those pixels. */
+export function createSampleBitmap(bitmap: ImageBitmap, maxSize: number): Promise<ImageBitmap> {
+  const ratio = Math.min(1, maxSize / bitmap.width, maxSize / bitmap.height)
+  return createImageBitmap(bitmap, {
+    resizeWidth: Math.max(1, Math.round(bitmap.width * ratio)),
+    resizeHeight: Math.max(1, Math.round(bitmap.height * ratio)),
+    resizeQuality: "medium",
+  })
+}
+
+/** Frees the decoded pixels and thumbnail URL once an image is removed. */
+export function releaseSourceImage({ bitmap, thumbnail }: SourceImage): void {
+  bitmap.close()
+  URL.revokeObjectURL(thumbnail)
+}
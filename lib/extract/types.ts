@@ -0,0 +1,54 @@
+import type { DeltaEMethod } from "@/lib/color"
+import type { QuantizerId } from "@/lib/quantize"
+import type { ExtractionMode, SwatchProfile } from "./profiles"
+import type { RegionSelection } from "./region"
+
+export interface ExtractionOptions {
+  mode: ExtractionMode
+  quantizer: QuantizerId
+  colorCount: number
+  /** Longest side, in pixels, the image is scaled down to before sampling. */
+  maxSize: number
+  /** Read every nth pixel of the scaled image. */
+  stride: number
+  /** Candidates closer than this ΔE are merged; 0 keeps every cluster. */
+  mergeThreshold: number
+  deltaE: DeltaEMethod
+  /** Reduce wide-gamut colors to sRGB instead of keeping them as Display-P3. */
+  gamutMap: boolean
+}
+
+export interface ExtractedColor {
+  /** Hex for display, clipped to sRGB when the color lies outside it. */
+  value: string
+  /** Exact `color(display-p3 …)` value for wide-gamut colors kept unmapped. */
+  input?: string
+  /** Fraction of the sampled pixels in this color's cluster. */
+  share: number
+  /** Android Palette style profile the color fits, if any. */
+  profile: SwatchProfile | null
+}
+
+export interface ExtractionResult {
+  colors: ExtractedColor[]
+  /** Whether any source had colors outside sRGB. */
+  wideGamut: boolean
+}
+
+/** One image to sample, limited to its selected area. */
+export interface ExtractionSource {
+  bitmap: ImageBitmap
+  selection: RegionSelection
+}
+
+export type ExtractionRequest = {
+  type: "extract"
+  /** Several sources are pooled into one palette. */
+  sources: ExtractionSource[]
+  options: ExtractionOptions
+}
+
+export type ExtractionResponse =
+  | { type: "progress"; progress: number }
+  | ({ type: "done" } & ExtractionResult)
+  | { type: "error"; message: string }
@@ -0,0 +1,69 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { readAco, writeAco } from "./aco"
+import { readAcoPalette } from "./adobe"
+import type { Swatch } from "./swatch"
+
+const readFixture = (name: string) => new Uint8Array(readFileSync(new URL(`./fixtures/${name}`, import.meta.url)))
+
+// Built byte by byte from the ACO layout. v1.aco has only the unnamed section, with RGB, HSB,
+// CMYK, Lab, Gray and a Pantone color; v2.aco repeats its colors in a named version 2 section.
+const v1 = readFixture("v1.aco")
+const v2 = readFixture("v2.aco")
+
+function expectSwatch(swatch: Swatch, expected: Omit<Swatch, "type">) {
+  expect(swatch.name).toBe(expected.name)
+  expect(swatch.model).toBe(expected.model)
+  expect(swatch.type).toBe("process")
+  expect(swatch.values).toHaveLength(expected.values.length)
+  swatch.values.forEach((value, i) => expect(value).toBeCloseTo(expected.values[i], 4))
+}
+
+describe("aco", () => {
+  it("reads version 1 files, naming colors by position and skipping unsupported spaces", () => {
+    const swatches = readAco(v1)
+    expect(swatches).toHaveLength(5)
+    expectSwatch(swatches[0], { name: "Color 1", model: "RGB", values: [1, 0x88 / 0xff, 0] })
+    // HSB is converted to RGB on read
+    expectSwatch(swatches[1], { name: "Color 2", model: "RGB", values: [1, 0, 0] })
+    expectSwatch(swatches[2], { name: "Color 3", model: "CMYK", values: [0, 1, 1, 0] })
+    expectSwatch(swatches[3], { name: "Color 4", model: "LAB", values: [50, 20, -30] })
+    expectSwatch(swatches[4], { name: "Color 5", model: "Gray", values: [0.75] })
+  })
+
+  it("reads names from the version 2 section", () => {
+    const swatches = readAco(v2)
+    expectSwatch(swatches[0], { name: "Ocean", model: "RGB", values: [59 / 255, 130 / 255, 246 / 255] })
+    expectSwatch(swatches[1], { name: "Press Ink", model: "CMYK", values: [0.1, 0.2, 0.3, 0.4] })
+    expectSwatch(swatches[2], { name: "Rosé", model: "LAB", values: [60, 20, 30] })
+    expectSwatch(swatches[3], { name: "Mid Gray", model: "Gray", values: [0.5] })
+  })
+
+  it("writes a version 1 and 2 file back byte for byte", () => {
+    expect(writeAco(readAco(v2))).toEqual(v2)
+  })
+
+  it("adds a named section when rewriting a version 1 file", () => {
+    const rewritten = writeAco(readAco(v1))
+    expect(rewritten.length).toBeGreaterThan(v1.length)
+    expect(readAco(rewritten)).toEqual(readAco(v1))
+  })
+
+  it("reads the fixtures as palettes", () => {
+    expect(readAcoPalette(v2, "Swatches").colors.map(({ name, value }) => [name, value])).toEqual([
+      ["Ocean", "#3b82f6"],
+      ["Press Ink", "#8a7a6b"],
+      ["Rosé", expect.stringMatching(/^#[0-9a-f]{6}$/)],
+      ["Mid Gray", "#808080"],
+    ])
+    expect(readAcoPalette(v1, "Swatches").colors.map(({ value }) => value).slice(0, 3)).toEqual([
+      "#ff8800",
+      "#ff0000",
+      "#ff0000",
+    ])
+  })
+
+  it("rejects other files", () => {
+    expect(() => readAco(new Uint8Array([0, 9, 0, 0]))).toThrow("Not a Photoshop swatches file")
+  })
+})
@@ -0,0 +1,109 @@
+import { fromHsv } from "@/lib/color"
+import { createByteReader, createByteWriter, type ByteWriter } from "./bytes"
+import type { Swatch, SwatchModel } from "./swatch"
+
+/**
+ * Photoshop color swatches: a version 1 section of unnamed colors followed by a version 2
+ * section repeating them with names. Each color is a color space id and four 16-bit values.
+ */
+
+const RGB = 0
+const HSB = 1
+const CMYK = 2
+const LAB = 7
+const GRAY = 8
+
+const SPACE_IDS: Record<SwatchModel, number> = { RGB, CMYK, LAB, Gray: GRAY }
+
+const unit = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 65535)
+
+/** The four stored words; CMYK is stored as ink remaining, Gray as ink coverage. */
+function encode({ model, values }: Swatch): number[] {
+  switch (model) {
+    case "RGB":
+      return [...values.map(unit), 0]
+    case "CMYK":
+      return values.map((v) => 65535 - unit(v))
+    case "LAB":
+      return [
+        Math.round(Math.min(Math.max(values[0], 0), 100) * 100),
+        Math.round(Math.min(Math.max(values[1], -128), 127) * 100),
+        Math.round(Math.min(Math.max(values[2], -128), 127) * 100),
+        0,
+      ]
+    case "Gray":
+      return [Math.round((1 - Math.min(Math.max(values[0], 0), 1)) * 10000), 0, 0, 0]
+  }
+}
+
+function writeColor(out: ByteWriter, swatch: Swatch) {
+  out.uint16(SPACE_IDS[swatch.model])
+  const words = encode(swatch)
+  // Lab a and b are signed
+  words.forEach((word, i) => (swatch.model === "LAB" && i > 0 ? out.int16(word) : out.uint16(word)))
+}
+
+export function writeAco(swatches: Swatch[]): Uint8Array {
+  const out = createByteWriter()
+  out.uint16(1)
+  out.uint16(swatches.length)
+  swatches.forEach((swatch) => writeColor(out, swatch))
+
+  out.uint16(2)
+  out.uint16(swatches.length)
+  for (const swatch of swatches) {
+    writeColor(out, swatch)
+    out.uint32(swatch.name.length + 1)
+    out.utf16(swatch.name)
+  }
+  return out.toBytes()
+}
+
+function readColor(input: ReturnType<typeof createByteReader>, name: string): Swatch | null {
+  const space = input.uint16()
+  const words = [input.uint16(), input.uint16(), input.uint16(), input.uint16()]
+  const signed = (word: number) => (word > 32767 ? word - 65536 : word)
+
+  switch (space) {
+    case RGB:
+      return { name, model: "RGB", values: words.slice(0, 3).map((w) => w / 65535), type: "process" }
+    case HSB: {
+      const { r, g, b } = fromHsv({
+        h: (words[0] / 65535) * 360,
+        s: (words[1] / 65535) * 100,
+        v: (words[2] / 65535) * 100,
+      })
+      return { name, model: "RGB", values: [r, g, b], type: "process" }
+    }
+    case CMYK:
+      return { name, model: "CMYK", values: words.map((w) => 1 - w / 65535), type: "process" }
+    case LAB:
+      return {
+        name,
+        model: "LAB",
+        values: [words[0] / 100, signed(words[1]) / 100, signed(words[2]) / 100],
+        type: "process",
+      }
+    case GRAY:
+      return { name, model: "Gray", values: [1 - words[0] / 10000], type: "process" }
+    default:
+      // Pantone, Focoltone and other proprietary spaces cannot be converted
+      return null
+  }
+}
+
+/** Reads the named version 2 section when present, otherwise the version 1 colors. */
+export function readAco(data: Uint8Array): Swatch[] {
+  const input = createByteReader(data)
+  if (input.uint16() !== 1) throw new Error("Not a Photoshop swatches file")
+  const count = input.uint16()
+  const unnamed = Array.from({ length: count }, (_, i) => readColor(input, `Color ${i + 1}`))
+  if (input.remaining < 4 || input.uint16() !== 2) return unnamed.filter((s) => s !== null)
+
+  const named = Array.from({ length: input.uint16() }, () => {
+    const swatch = readColor(input, "")
+    const name = input.utf16(input.uint32())
+    return swatch && { ...swatch, name }
+  })
+  return named.filter((s) => s !== null)
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "vitest"
+import { parseColor, toDisplayP3 } from "@/lib/color"
+import { readAcoPalette, readAsePalette, writeAcoPalette, writeAsePalette } from "./adobe"
+import type { PortablePalette } from "./types"
+
+const formats = [
+  ["aco", readAcoPalette, writeAcoPalette],
+  ["ase", readAsePalette, writeAsePalette],
+] as const
+
+describe("gamut on import", () => {
+  const hexes = ["#ff8800", "#00ff00", "#00ff87", "#0000ff", "#ffffff", "#000000", "#3b82f6"]
+  const palette: PortablePalette = { name: "Edges", colors: hexes.map((value, i) => ({ name: `c${i}`, value })) }
+
+  it.each(formats)("%s reads Lab-quantised sRGB colors back as hex", (_, read, write) => {
+    const back = read(write(palette, { swatchModel: "LAB", swatchType: "process" }), "Edges")
+    expect(back.colors.map(({ value }) => value)).toEqual(hexes)
+  })
+
+  it.each(formats)("%s keeps colors well outside sRGB as Display-P3", (_, read, write) => {
+    const wide: PortablePalette = { name: "Wide", colors: [{ name: "green", value: "color(display-p3 0 1 0)" }] }
+    const [green] = read(write(wide, { swatchModel: "LAB", swatchType: "process" }), "Wide").colors
+    expect(green.value).toMatch(/^color\(display-p3 /)
+    toDisplayP3(parseColor(green.value)!).forEach((channel, i) => expect(channel).toBeCloseTo([0, 1, 0][i], 2))
+  })
+})
@@ -0,0 +1,33 @@
+import { readAco, writeAco } from "./aco"
+import { isAseGroup, readAse, writeAse, type AseGroup } from "./ase"
+import { colorGroups, paletteFromColors, toPortableValue } from "./palette"
+import { swatchColor, toSwatch, type Swatch } from "./swatch"
+import type { ExportOptions, PortablePalette } from "./types"
+
+const swatchGroups = (palette: PortablePalette, { swatchModel, swatchType }: ExportOptions): AseGroup[] =>
+  colorGroups(palette).map(({ name, colors }) => ({
+    name,
+    swatches: colors.map((color) => toSwatch(color.name, color.value, swatchModel, swatchType)),
+  }))
+
+const fromSwatches = (name: string, swatches: Swatch[]) =>
+  paletteFromColors(
+    name,
+    swatches.map((swatch) => ({ name: swatch.name, value: toPortableValue(swatchColor(swatch)) })),
+  )
+
+export const writeAsePalette = (palette: PortablePalette, options: ExportOptions) =>
+  writeAse(swatchGroups(palette, options))
+
+/** Every swatch becomes a color, grouped or not; the first group names the palette. */
+export function readAsePalette(data: Uint8Array, fallbackName: string): PortablePalette {
+  const entries = readAse(data)
+  const swatches = entries.flatMap((entry) => (isAseGroup(entry) ? entry.swatches : [entry]))
+  return fromSwatches(entries.find(isAseGroup)?.name || fallbackName, swatches)
+}
+
+/** ACO has no groups, so scale steps follow the palette's colors. */
+export const writeAcoPalette = (palette: PortablePalette, options: ExportOptions) =>
+  writeAco(swatchGroups(palette, { ...options, swatchType: "process" }).flatMap(({ swatches }) => swatches))
+
+export const readAcoPalette = (data: Uint8Array, fallbackName: string) => fromSwatches(fallbackName, readAco(data))
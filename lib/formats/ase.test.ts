@@ -0,0 +1,56 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { readAsePalette } from "./adobe"
+import { isAse, isAseGroup, readAse, writeAse, type AseGroup } from "./ase"
+import type { Swatch } from "./swatch"
+
+// Built byte by byte from the ASE layout: two groups around an ungrouped swatch, every model and type
+const fixture = new Uint8Array(readFileSync(new URL("./fixtures/swatches.ase", import.meta.url)))
+
+function expectSwatch(swatch: Swatch, expected: Swatch) {
+  expect(swatch.name).toBe(expected.name)
+  expect(swatch.model).toBe(expected.model)
+  expect(swatch.type).toBe(expected.type)
+  expect(swatch.values).toHaveLength(expected.values.length)
+  swatch.values.forEach((value, i) => expect(value).toBeCloseTo(expected.values[i], 5))
+}
+
+describe("ase", () => {
+  it("recognises the signature", () => {
+    expect(isAse(fixture)).toBe(true)
+    expect(isAse(new TextEncoder().encode("GIMP Palette"))).toBe(false)
+  })
+
+  it("reads groups and ungrouped swatches in file order", () => {
+    const entries = readAse(fixture)
+    expect(entries.map((entry) => (isAseGroup(entry) ? `group ${entry.name}` : entry.name))).toEqual([
+      "group Brand",
+      "Mid Gray",
+      "group Accents",
+    ])
+
+    const [brand, gray, accents] = entries as [AseGroup, Swatch, AseGroup]
+    expectSwatch(brand.swatches[0], { name: "Ocean", model: "RGB", values: [59 / 255, 130 / 255, 246 / 255], type: "global" })
+    expectSwatch(brand.swatches[1], { name: "Press Ink", model: "CMYK", values: [0.1, 0.2, 0.3, 0.4], type: "spot" })
+    expectSwatch(brand.swatches[2], { name: "Rosé", model: "LAB", values: [60, 20, 30], type: "process" })
+    expectSwatch(gray, { name: "Mid Gray", model: "Gray", values: [0.5], type: "process" })
+    expectSwatch(accents.swatches[0], { name: "Sun", model: "RGB", values: [1, 136 / 255, 0], type: "process" })
+  })
+
+  it("writes the fixture back byte for byte", () => {
+    expect(writeAse(readAse(fixture))).toEqual(fixture)
+  })
+
+  it("reads the fixture as a palette named after its first group", () => {
+    const palette = readAsePalette(fixture, "Fallback")
+    expect(palette.name).toBe("Brand")
+    expect(palette.colors.map(({ name }) => name)).toEqual(["Ocean", "Press Ink", "Rosé", "Mid Gray", "Sun"])
+    expect(palette.colors[0].value).toBe("#3b82f6")
+    expect(palette.colors[3].value).toBe("#808080")
+    expect(palette.colors[4].value).toBe("#ff8800")
+  })
+
+  it("rejects other files", () => {
+    expect(() => readAse(new TextEncoder().encode("ASEX\0\x01\0\0\0\0\0\0"))).toThrow("Not an Adobe Swatch Exchange file")
+  })
+})
@@ -0,0 +1,111 @@
+import { createByteReader, createByteWriter, type ByteWriter } from "./bytes"
+import type { Swatch, SwatchModel, SwatchType } from "./swatch"
+
+/**
+ * Adobe Swatch Exchange: an "ASEF" header, version 1.0 and a block count, then blocks of
+ * colors and group markers. Every block is a type, a byte length and its payload; names
+ * are length-prefixed, null-terminated UTF-16 and all numbers are big-endian.
+ */
+
+const SIGNATURE = "ASEF"
+const GROUP_START = 0xc001
+const GROUP_END = 0xc002
+const COLOR_ENTRY = 0x0001
+
+const MODEL_TAGS: Record<SwatchModel, string> = { RGB: "RGB ", CMYK: "CMYK", LAB: "LAB ", Gray: "Gray" }
+const MODEL_CHANNELS: Record<SwatchModel, number> = { RGB: 3, CMYK: 4, LAB: 3, Gray: 1 }
+const SWATCH_TYPES: SwatchType[] = ["global", "spot", "process"]
+
+export interface AseGroup {
+  name: string
+  swatches: Swatch[]
+}
+
+/** Top-level swatches and groups, in file order. ASE groups do not nest. */
+export type AseEntry = Swatch | AseGroup
+
+export const isAseGroup = (entry: AseEntry): entry is AseGroup => "swatches" in entry
+
+function writeName(out: ByteWriter, name: string) {
+  out.uint16(name.length + 1)
+  out.utf16(name)
+}
+
+function writeBlock(out: ByteWriter, type: number, write: (block: ByteWriter) => void) {
+  const block = createByteWriter()
+  write(block)
+  out.uint16(type)
+  out.uint32(block.length)
+  out.bytes(block.toBytes())
+}
+
+function writeSwatch(out: ByteWriter, { name, model, values, type }: Swatch) {
+  writeBlock(out, COLOR_ENTRY, (block) => {
+    writeName(block, name)
+    block.tag(MODEL_TAGS[model])
+    // ASE stores Lab lightness as 0–1
+    const stored = model === "LAB" ? [values[0] / 100, values[1], values[2]] : values
+    stored.forEach(block.float32)
+    block.uint16(SWATCH_TYPES.indexOf(type))
+  })
+}
+
+export function writeAse(entries: AseEntry[]): Uint8Array {
+  const out = createByteWriter()
+  const blockCount = entries.reduce((n, entry) => n + (isAseGroup(entry) ? entry.swatches.length + 2 : 1), 0)
+  out.tag(SIGNATURE)
+  out.uint16(1)
+  out.uint16(0)
+  out.uint32(blockCount)
+
+  for (const entry of entries) {
+    if (!isAseGroup(entry)) {
+      writeSwatch(out, entry)
+      continue
+    }
+    writeBlock(out, GROUP_START, (block) => writeName(block, entry.name))
+    entry.swatches.forEach((swatch) => writeSwatch(out, swatch))
+    writeBlock(out, GROUP_END, () => {})
+  }
+  return out.toBytes()
+}
+
+export const isAse = (data: Uint8Array) => String.fromCharCode(...data.subarray(0, 4)) === SIGNATURE
+
+export function readAse(data: Uint8Array): AseEntry[] {
+  const input = createByteReader(data)
+  if (input.tag() !== SIGNATURE) throw new Error("Not an Adobe Swatch Exchange file")
+  const major = input.uint16()
+  input.uint16()
+  if (major !== 1) throw new Error(`Unsupported ASE version ${major}`)
+
+  const entries: AseEntry[] = []
+  let group: AseGroup | null = null
+  const blockCount = input.uint32()
+
+  for (let i = 0; i < blockCount; i++) {
+    const type = input.uint16()
+    const length = input.uint32()
+    const end = input.offset + length
+
+    if (type === GROUP_START) {
+      group = { name: input.utf16(input.uint16()), swatches: [] }
+      entries.push(group)
+    } else if (type === GROUP_END) {
+      group = null
+    } else if (type === COLOR_ENTRY) {
+      const name = input.utf16(input.uint16())
+      const tag = input.tag()
+      const model = (Object.keys(MODEL_TAGS) as SwatchModel[]).find((m) => MODEL_TAGS[m] === tag)
+      if (!model) throw new Error(`Unknown ASE color model "${tag.trim()}"`)
+      const values = Array.from({ length: MODEL_CHANNELS[model] }, input.float32)
+      if (model === "LAB") values[0] *= 100
+      const swatch: Swatch = { name, model, values, type: SWATCH_TYPES[input.uint16()] ?? "process" }
+      if (group) group.swatches.push(swatch)
+      else entries.push(swatch)
+    }
+    // Skip unknown blocks and any padding after known ones
+    input.skip(end - input.offset)
+  }
+  return entries
+}
@@ -0,0 +1,83 @@
+/** Byte writer for the binary formats; big-endian unless `littleEndian` is set, as zip needs. */
+export function createByteWriter(littleEndian = false) {
+  const chunks: Uint8Array[] = []
+  let length = 0
+
+  const push = (size: number, write: (view: DataView) => void) => {
+    const chunk = new Uint8Array(size)
+    write(new DataView(chunk.buffer))
+    chunks.push(chunk)
+    length += size
+  }
+
+  return {
+    uint16: (value: number) => push(2, (view) => view.setUint16(0, value, littleEndian)),
+    int16: (value: number) => push(2, (view) => view.setInt16(0, value, littleEndian)),
+    uint32: (value: number) => push(4, (view) => view.setUint32(0, value, littleEndian)),
+    float32: (value: number) => push(4, (view) => view.setFloat32(0, value, littleEndian)),
+    /** Four ASCII characters, such as a file signature or color model. */
+    tag: (text: string) => push(4, (view) => [...text.padEnd(4)].forEach((c, i) => view.setUint8(i, c.charCodeAt(0)))),
+    /** UTF-16 code units followed by a null terminator, without a length prefix. */
+    utf16: (text: string) =>
+      push((text.length + 1) * 2, (view) => {
+        for (let i = 0; i < text.length; i++) view.setUint16(i * 2, text.charCodeAt(i), littleEndian)
+      }),
+    bytes: (data: Uint8Array) => {
+      chunks.push(data)
+      length += data.length
+    },
+    get length() {
+      return length
+    },
+    toBytes: (): Uint8Array => {
+      const out = new Uint8Array(length)
+      chunks.reduce((offset, chunk) => {
+        out.set(chunk, offset)
+        return offset + chunk.length
+      }, 0)
+      return out
+    },
+  }
+}
+
+export type ByteWriter = ReturnType<typeof createByteWriter>
+
+/** Byte reader that throws on truncated input instead of reading garbage. */
+export function createByteReader(data: Uint8Array, littleEndian = false) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  let offset = 0
+
+  const take = (size: number) => {
+    if (offset + size > data.length) throw new Error("The file is truncated")
+    const start = offset
+    offset += size
+    return start
+  }
+
+  return {
+    uint16: () => view.getUint16(take(2), littleEndian),
+    int16: () => view.getInt16(take(2), littleEndian),
+    uint32: () => view.getUint32(take(4), littleEndian),
+    float32: () => view.getFloat32(take(4), littleEndian),
+    tag: () => String.fromCharCode(...data.subarray(take(4), offset)),
+    /** `units` UTF-16 code units, dropping the null terminator if present. */
+    utf16: (units: number) => {
+      const start = take(units * 2)
+      let text = ""
+      for (let i = 0; i < units; i++) text += String.fromCharCode(view.getUint16(start + i * 2, littleEndian))
+      return text.replace(/\0+$/, "")
+    },
+    bytes: (size: number) => data.subarray(take(size), offset),
+    skip: (size: number) => void take(size),
+    seek: (position: number) => {
+      if (position < 0 || position > data.length) throw new Error("The file is truncated")
+      offset = position
+    },
+    get offset() {
+      return offset
+    },
+    get remaining() {
+      return data.length - offset
+    },
+  }
+}
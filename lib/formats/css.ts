@@ -0,0 +1,57 @@
+import { parseCssColor } from "@/lib/color"
+import { colorIdentifiers, paletteFromColors, toPortableValue } from "./palette"
+import type { PortablePalette } from "./types"
+
+/** Every color as an identifier and value, followed by its scale steps as `<id>-<step>`. */
+function variables({ colors }: PortablePalette): [string, string][] {
+  const ids = colorIdentifiers(colors)
+  return colors.flatMap(({ value, scale }, i): [string, string][] => [
+    [ids[i], value],
+    ...(scale?.stops.map(({ step, value }): [string, string] => [`${ids[i]}-${step}`, value]) ?? []),
+  ])
+}
+
+const lines = (entries: string[]) => entries.map((line) => `${line}\n`).join("")
+
+export const writeCss = (palette: PortablePalette) =>
+  `/* ${palette.name} */\n:root {\n${lines(variables(palette).map(([id, value]) => `  --${id}: ${value};`))}}\n`
+
+export const writeScss = (palette: PortablePalette) =>
+  `// ${palette.name}\n${lines(variables(palette).map(([id, value]) => `$${id}: ${value};`))}`
+
+export const writeLess = (palette: PortablePalette) =>
+  `// ${palette.name}\n${lines(variables(palette).map(([id, value]) => `@${id}: ${value};`))}`
+
+/** Tailwind v4 reads theme colors from `--color-*` variables in an `@theme` block. */
+export const writeTailwindTheme = (palette: PortablePalette) =>
+  `/* ${palette.name} */\n@theme {\n${lines(variables(palette).map(([id, value]) => `  --color-${id}: ${value};`))}}\n`
+
+// `--name: value;`, `$name: value;` or `@name: value;`, with Sass's `!default` allowed
+const DECLARATION = /(--|\$|@)([\w-]+)\s*:\s*([^;{}]+?)\s*(?:!default\s*)?;/g
+const REFERENCE = /^(?:var\(\s*--([\w-]+)\s*\)|[$@]([\w-]+))$/
+const LEADING_COMMENT = /^\s*(?:\/\*\s*(.+?)\s*\*\/|\/\/\s*(.+))/
+
+export const hasCssVariables = (text: string) => /(?:^|[\s;{])(?:--|\$|@)[\w-]+\s*:/.test(text)
+
+/**
+ * Reads color variables from CSS, SCSS or Less, resolving references to earlier variables
+ * and skipping anything that is not a color. Inside a Tailwind v4 `@theme` file the
+ * `color-` prefix is dropped from names. A leading comment names the palette.
+ */
+export function readCssVariables(text: string, fallbackName: string): PortablePalette {
+  const theme = /@theme\b/.test(text)
+  const values = new Map<string, string>()
+  const colors: { name: string; value: string }[] = []
+
+  for (const [, , name, raw] of text.matchAll(DECLARATION)) {
+    const reference = REFERENCE.exec(raw)
+    const value = reference ? values.get(reference[1] ?? reference[2]) : raw
+    if (!value) continue
+    values.set(name, value)
+    const parsed = parseCssColor(value)
+    if (parsed) colors.push({ name: theme ? name.replace(/^color-/, "") : name, value: toPortableValue(parsed.color) })
+  }
+
+  const comment = LEADING_COMMENT.exec(text)
+  return paletteFromColors(comment?.[1] ?? comment?.[2] ?? fallbackName, colors)
+}
@@ -0,0 +1,55 @@
+import { clampColor, parseCssColor, type Color } from "@/lib/color"
+import { colorGroups, paletteFromColors, toPortableValue } from "./palette"
+import type { PortablePalette } from "./types"
+
+/**
+ * GIMP palette text format, also read by Inkscape, Krita and Aseprite: a "GIMP Palette"
+ * line, optional `Name:`/`Columns:` headers, `#` comments and one "R G B name" line per
+ * color. Aseprite's `Channels: RGBA` header adds an alpha column.
+ */
+
+const HEADER = "GIMP Palette"
+// GIMP names entries it was not given a name for
+const UNNAMED = "Untitled"
+
+const channel = (value: number) => String(Math.round(value * 255)).padStart(3)
+
+/** Scales are written after the palette's colors, under a comment naming each one. */
+export function writeGpl(palette: PortablePalette): string {
+  const lines = [HEADER, `Name: ${palette.name}`, "Columns: 0", "#"]
+  colorGroups(palette).forEach(({ name, colors }, i) => {
+    if (i > 0) lines.push(`# ${name}`)
+    for (const color of colors) {
+      const { r, g, b } = clampColor(parseCssColor(color.value)!.color)
+      lines.push(`${channel(r)} ${channel(g)} ${channel(b)}\t${color.name}`)
+    }
+  })
+  return `${lines.join("\n")}\n`
+}
+
+export const isGpl = (text: string) => text.replace(/^\uFEFF/, "").trimStart().startsWith(HEADER)
+
+export function readGpl(text: string, fallbackName: string): PortablePalette {
+  if (!isGpl(text)) throw new Error("Not a GIMP palette")
+  let name = fallbackName
+  let rgba = false
+  const colors: { name: string; value: string }[] = []
+
+  for (const line of text.split(/\r?\n/).slice(1)) {
+    const header = /^(Name|Columns|Channels):\s*(.*)$/i.exec(line.trim())
+    if (header) {
+      if (header[1].toLowerCase() === "name" && header[2].trim()) name = header[2].trim()
+      if (header[1].toLowerCase() === "channels") rgba = header[2].trim().toUpperCase() === "RGBA"
+      continue
+    }
+    if (line.trim() === "" || line.trim().startsWith("#")) continue
+
+    const match = (rgba ? /^\s*(\d+)\s+(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/ : /^\s*(\d+)\s+(\d+)\s+(\d+)\s*(.*)$/).exec(line)
+    if (!match) throw new Error(`Unreadable palette line "${line.trim()}"`)
+    const [r, g, b, a] = match.slice(1, rgba ? 5 : 4).map((n) => Number(n) / 255)
+    const color: Color = { r, g, b, alpha: rgba ? a : 1 }
+    const label = match[rgba ? 5 : 4].trim()
+    colors.push({ name: label === UNNAMED ? "" : label, value: toPortableValue(clampColor(color)) })
+  }
+  return paletteFromColors(name, colors)
+}
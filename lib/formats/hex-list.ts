@@ -0,0 +1,35 @@
+import { parseHex } from "@/lib/color"
+import { paletteFromColors, toPortableValue } from "./palette"
+import type { PortablePalette } from "./types"
+
+const HEX = /#(?:[0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{3,4})\b/gi
+// Separators left around a name once its hex code is taken out
+const NAME_TRIM = /^[\s,;:=|\-–—"']+|[\s,;:=|\-–—"']+$/g
+
+const lines = (text: string) =>
+  text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith("//") && !line.startsWith("/*"))
+
+/** Every line holds a hex code, so stray hex in other text does not count. */
+export const isHexList = (text: string) => {
+  const content = lines(text)
+  return content.length > 0 && content.every((line) => line.match(HEX))
+}
+
+/**
+ * Reads hex codes in any layout: one per line, comma separated or embedded in text. A line
+ * with a single code and some other text uses that text as the color's name.
+ */
+export function readHexList(text: string, fallbackName: string): PortablePalette {
+  const colors = lines(text).flatMap((line) => {
+    const codes = line.match(HEX) ?? []
+    const name = codes.length === 1 ? line.replace(codes[0], "").replace(NAME_TRIM, "") : ""
+    return codes.flatMap((code) => {
+      const color = parseHex(code)
+      return color ? [{ name, value: toPortableValue(color) }] : []
+    })
+  })
+  return paletteFromColors(fallbackName, colors)
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest"
+import { importPalette } from "./index"
+import { writeJson } from "./json"
+import { writeDesignTokens } from "./tokens"
+import type { PortablePalette } from "./types"
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+const palette: PortablePalette = {
+  name: "Brand",
+  colors: [
+    { name: "primary", value: "#3b82f6" },
+    { name: "accent", value: "#ff8800" },
+  ],
+}
+
+describe("importPalette", () => {
+  it("matches compound extensions such as .tokens.json", async () => {
+    const { format, palette: read } = await importPalette("brand.tokens.json", encode(writeDesignTokens(palette)))
+    expect(format.id).toBe("dtcg")
+    expect(read.colors.map(({ value }) => value)).toEqual(["#3b82f6", "#ff8800"])
+  })
+
+  it("names palettes after the file without its compound extension", async () => {
+    const tokens = JSON.stringify({ brand: { primary: { $type: "color", $value: "#3b82f6" } } })
+    expect((await importPalette("brand.tokens.json", encode(tokens))).palette.name).toBe("brand")
+  })
+
+  it("reads the app's own JSON even with a design tokens extension", async () => {
+    const { format, palette: read } = await importPalette("brand.tokens.json", encode(writeJson(palette)))
+    expect(format.id).toBe("json")
+    expect(read.name).toBe("Brand")
+  })
+
+  it("falls through to the next format when JSON holds no tokens", async () => {
+    const other = JSON.stringify({ theme: { primary: "#3b82f6", accent: "#ff8800" } })
+    const { format, palette: read } = await importPalette("theme.json", encode(other))
+    expect(format.id).toBe("hex")
+    expect(read.colors.map(({ value }) => value)).toEqual(["#3b82f6", "#ff8800"])
+  })
+
+  it("reports the detected reader's error instead of scraping hex codes", async () => {
+    const broken = JSON.stringify({ primary: { $value: "{missing}" }, accent: { $value: "#ff8800" } })
+    await expect(importPalette("broken.tokens.json", encode(broken))).rejects.toThrow("Unknown alias {missing}")
+  })
+
+  it("reports the first error once every candidate fails", async () => {
+    const broken = JSON.stringify({ primary: { $value: "{missing}" } })
+    await expect(importPalette("broken.tokens.json", encode(broken))).rejects.toThrow("Unknown alias {missing}")
+  })
+
+  it("rejects unknown file types", async () => {
+    await expect(importPalette("notes.docx", encode("nothing here"))).rejects.toThrow('Unsupported file type ".docx"')
+  })
+})
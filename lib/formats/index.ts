@@ -0,0 +1,206 @@
+import { readAcoPalette, readAsePalette, writeAcoPalette, writeAsePalette } from "./adobe"
+import { isAse } from "./ase"
+import { hasCssVariables, readCssVariables, writeCss, writeLess, writeScss, writeTailwindTheme } from "./css"
+import { isGpl, readGpl, writeGpl } from "./gpl"
+import { isHexList, readHexList } from "./hex-list"
+import { isJsonPalette, readJson, writeJson } from "./json"
+import { readKpl, writeKpl } from "./krita"
+import { DEFAULT_PALETTE_NAME, collapseScales, toIdentifier } from "./palette"
+import { readProcreate, writeProcreate } from "./procreate"
+import { isTailwindConfig, readTailwindConfig, writeTailwindConfig } from "./tailwind"
+import { isDesignTokens, readDesignTokens, writeDesignTokens } from "./tokens"
+import type {
+  ExportFormat,
+  ExportFormatSpec,
+  ExportOptions,
+  ImportFormatSpec,
+  PortablePalette,
+} from "./types"
+
+export {
+  DEFAULT_PALETTE_NAME,
+  colorIdentifiers,
+  collapseScales,
+  defaultColorName,
+  fromPortablePalette,
+  toIdentifier,
+  toPortablePalette,
+  uniqueKeys,
+} from "./palette"
+export { readAco, writeAco } from "./aco"
+export { isAseGroup, readAse, writeAse, type AseEntry, type AseGroup } from "./ase"
+export { readGpl, writeGpl } from "./gpl"
+export { readKpl, writeKpl } from "./krita"
+export { PROCREATE_MAX_SWATCHES, readProcreate, writeProcreate } from "./procreate"
+export { SWATCH_MODELS, SWATCH_TYPES, swatchColor, toSwatch, type Swatch, type SwatchModel, type SwatchType } from "./swatch"
+export { readDesignTokens, writeDesignTokens } from "./tokens"
+export type {
+  ExportFormat,
+  ExportFormatSpec,
+  ExportOptions,
+  ImportFormat,
+  ImportFormatSpec,
+  PortableColor,
+  PortablePalette,
+} from "./types"
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = { swatchModel: "RGB", swatchType: "process" }
+
+export const EXPORT_FORMATS: ExportFormatSpec[] = [
+  { id: "css", label: "CSS variables", extension: "css", mimeType: "text/css", write: writeCss },
+  { id: "scss", label: "SCSS variables", extension: "scss", mimeType: "text/x-scss", write: writeScss },
+  { id: "less", label: "Less variables", extension: "less", mimeType: "text/x-less", write: writeLess },
+  {
+    id: "tailwind",
+    label: "Tailwind config",
+    extension: "js",
+    mimeType: "text/javascript",
+    write: writeTailwindConfig,
+  },
+  { id: "tailwind-v4", label: "Tailwind v4 @theme", extension: "css", mimeType: "text/css", write: writeTailwindTheme },
+  { id: "json", label: "JSON", extension: "json", mimeType: "application/json", write: writeJson },
+  {
+    id: "dtcg",
+    label: "Design Tokens (DTCG)",
+    extension: "tokens.json",
+    mimeType: "application/json",
+    write: writeDesignTokens,
+  },
+  {
+    id: "ase",
+    label: "Adobe Swatch Exchange (.ase)",
+    extension: "ase",
+    mimeType: "application/octet-stream",
+    write: writeAsePalette,
+    options: ["swatchModel", "swatchType"],
+  },
+  {
+    id: "aco",
+    label: "Photoshop swatches (.aco)",
+    extension: "aco",
+    mimeType: "application/octet-stream",
+    write: writeAcoPalette,
+    options: ["swatchModel"],
+  },
+  { id: "gpl", label: "GIMP / Inkscape palette (.gpl)", extension: "gpl", mimeType: "text/plain", write: writeGpl },
+  { id: "kpl", label: "Krita palette (.kpl)", extension: "kpl", mimeType: "application/zip", write: writeKpl },
+  {
+    id: "procreate",
+    label: "Procreate swatches (.swatches)",
+    extension: "swatches",
+    mimeType: "application/zip",
+    write: writeProcreate,
+  },
+]
+
+const decodeText = (data: Uint8Array) => new TextDecoder().decode(data)
+
+/** A text format, detected and read from the decoded file. */
+const textFormat = (
+  spec: Omit<ImportFormatSpec, "detect" | "read">,
+  detect: (text: string) => boolean,
+  read: (text: string, fallbackName: string) => PortablePalette,
+): ImportFormatSpec => ({
+  ...spec,
+  detect: (data) => detect(decodeText(data)),
+  read: (data, fallbackName) => read(decodeText(data), fallbackName),
+})
+
+/**
+ * Ordered so that content detection tries the most specific formats first; the hex list
+ * accepts almost anything with color codes in it, so it comes last.
+ */
+export const IMPORT_FORMATS: ImportFormatSpec[] = [
+  { id: "ase", label: "Adobe Swatch Exchange", extensions: ["ase"], detect: isAse, read: readAsePalette },
+  { id: "aco", label: "Photoshop swatches", extensions: ["aco"], read: readAcoPalette },
+  { id: "kpl", label: "Krita palette", extensions: ["kpl"], read: readKpl },
+  { id: "procreate", label: "Procreate swatches", extensions: ["swatches"], read: readProcreate },
+  textFormat({ id: "gpl", label: "GIMP palette", extensions: ["gpl"] }, isGpl, readGpl),
+  textFormat({ id: "json", label: "Palette JSON", extensions: ["json"] }, isJsonPalette, readJson),
+  textFormat(
+    { id: "dtcg", label: "Design Tokens (DTCG)", extensions: ["tokens.json", "tokens"] },
+    isDesignTokens,
+    readDesignTokens,
+  ),
+  textFormat(
+    { id: "tailwind", label: "Tailwind config", extensions: ["js", "cjs", "mjs", "ts"] },
+    isTailwindConfig,
+    readTailwindConfig,
+  ),
+  textFormat(
+    { id: "css", label: "CSS variables", extensions: ["css", "scss", "sass", "less"] },
+    hasCssVariables,
+    readCssVariables,
+  ),
+  textFormat({ id: "hex", label: "Hex codes", extensions: ["txt"] }, isHexList, readHexList),
+]
+
+export function getExportFormat(id: ExportFormat): ExportFormatSpec {
+  return EXPORT_FORMATS.find((format) => format.id === id)!
+}
+
+export const exportPalette = (
+  palette: PortablePalette,
+  format: ExportFormat,
+  options: ExportOptions = DEFAULT_EXPORT_OPTIONS,
+): string | Uint8Array => getExportFormat(format).write(palette, options)
+
+export interface ImportResult {
+  format: ImportFormatSpec
+  palette: PortablePalette
+}
+
+/** Length of the longest of `extensions` the file name ends in, or 0. They may be compound, like `tokens.json`. */
+const matchExtension = (fileName: string, extensions: string[]) =>
+  Math.max(0, ...extensions.filter((extension) => fileName.endsWith(`.${extension}`)).map(({ length }) => length))
+
+/**
+ * Reads a palette file or pasted text. Formats recognised by content are tried first, then
+ * those matching the extension, longest extension first; when a reader fails the next one
+ * gets a chance, and the first error is reported only if they all fail. Palettes that do not
+ * store a name are named after the file, and flattened scale steps are folded back into
+ * their colors.
+ */
+export async function importPalette(fileName: string, data: Uint8Array): Promise<ImportResult> {
+  const lowerName = fileName.toLowerCase()
+  const byExtension = IMPORT_FORMATS.map((format) => ({ format, length: matchExtension(lowerName, format.extensions) }))
+    .filter(({ length }) => length > 0)
+    .sort((a, b) => b.length - a.length)
+  const detected = IMPORT_FORMATS.filter(({ detect }) => detect?.(data))
+  const ordered = [...new Set([...detected, ...byExtension.map(({ format }) => format)])]
+  // Hex codes can be scraped from almost anything, so once a structured format recognised the
+  // content its errors are reported instead of being papered over by a partial hex import
+  const candidates = detected.some((format) => format.id !== "hex")
+    ? ordered.filter((format) => format.id !== "hex")
+    : ordered
+  if (candidates.length === 0) {
+    const extension = fileName.includes(".") ? lowerName.split(".").pop()! : ""
+    throw new Error(extension ? `Unsupported file type ".${extension}"` : "The palette format was not recognised")
+  }
+
+  const baseName =
+    byExtension.length > 0 ? fileName.slice(0, -(byExtension[0].length + 1)) : fileName.replace(/\.[^.]+$/, "")
+  let firstError: unknown
+  for (const format of candidates) {
+    try {
+      const palette = await format.read(data, baseName || DEFAULT_PALETTE_NAME)
+      return { format, palette: { ...palette, colors: collapseScales(palette.colors) } }
+    } catch (error) {
+      firstError ??= error
+    }
+  }
+  throw firstError
+}
+
+export const exportFileName = ({ name }: PortablePalette, { extension }: ExportFormatSpec) =>
+  `${toIdentifier(name) || "palette"}.${extension}`
+
+/** Saves text or bytes as a file through a temporary object URL. */
+export function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const a = document.createElement("a")
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
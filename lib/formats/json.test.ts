@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest"
+import { readJson, writeJson } from "./json"
+import { scaleFor } from "./palette"
+import type { PortablePalette } from "./types"
+
+const palette: PortablePalette = {
+  name: "Brand",
+  colors: [
+    {
+      name: "primary",
+      description: "Buttons and links",
+      value: "#3b82f6",
+      scale: { curve: "tailwind", stops: scaleFor("#3b82f6", "tailwind")! },
+    },
+    { name: "accent", value: "#ff8800" },
+    { name: "vivid", value: "color(display-p3 0 1 0)" },
+  ],
+}
+
+describe("json", () => {
+  it("round trips names, descriptions, values and scales", () => {
+    expect(readJson(writeJson(palette), "Fallback")).toEqual(palette)
+  })
+
+  it("writes colors as named entries", () => {
+    const data = JSON.parse(writeJson(palette))
+    expect(data.colors[0]).toEqual({ name: "primary", value: "#3b82f6", description: "Buttons and links" })
+    expect(data.colors[1]).toEqual({ name: "accent", value: "#ff8800" })
+  })
+
+  it("still reads a plain list of color strings", () => {
+    const read = readJson(JSON.stringify({ colors: ["#ff8800", "rgb(0 0 255)", "not a color"] }), "Old")
+    expect(read).toEqual({
+      name: "Old",
+      colors: [
+        { name: "palette-1", value: "#ff8800" },
+        { name: "palette-2", value: "#0000ff" },
+      ],
+    })
+  })
+
+  it("rejects files without colors", () => {
+    expect(() => readJson("{}", "Empty")).toThrow()
+    expect(() => readJson(JSON.stringify({ colors: [] }), "Empty")).toThrow("no colors")
+  })
+})
@@ -0,0 +1,80 @@
+import { SCALE_CURVES, parseCssColor, type ScaleCurve } from "@/lib/color"
+import { paletteFromColors, scaleFor, toPortableValue } from "./palette"
+import type { PortablePalette } from "./types"
+
+/** The app's own format: named colors plus the generated scales, keyed by row. */
+export function writeJson({ name, colors }: PortablePalette): string {
+  const data = {
+    name,
+    colors: colors.map(({ name, value, description }) => ({ name, value, description })),
+    scales: colors.flatMap(({ value, scale }, index) =>
+      scale
+        ? [
+            {
+              row: index + 1,
+              base: value,
+              curve: scale.curve,
+              steps: Object.fromEntries(scale.stops.map(({ step, value }) => [step, value])),
+            },
+          ]
+        : [],
+    ),
+    created: new Date().toISOString(),
+  }
+  return JSON.stringify(data, null, 2)
+}
+
+interface PaletteJson {
+  name?: unknown
+  colors: unknown[]
+  scales?: unknown
+}
+
+const isPaletteJson = (value: unknown): value is PaletteJson =>
+  typeof value === "object" && value !== null && Array.isArray((value as PaletteJson).colors)
+
+/** Whether the text is a palette written by `writeJson`, as opposed to other JSON. */
+export function isJsonPalette(text: string): boolean {
+  try {
+    return isPaletteJson(JSON.parse(text))
+  } catch {
+    return false
+  }
+}
+
+const optionalString = (value: unknown): string | undefined => (typeof value === "string" ? value : undefined)
+
+/** One entry of the colors list: `{ name, value, description }`, or a bare color string in older files. */
+function readColor(entry: unknown): { name?: string; description?: string; value: string } | null {
+  if (typeof entry === "string") {
+    const parsed = parseCssColor(entry)
+    return parsed && { value: toPortableValue(parsed.color) }
+  }
+  if (typeof entry !== "object" || entry === null) return null
+
+  const { name, value, description } = entry as { name?: unknown; value?: unknown; description?: unknown }
+  const parsed = typeof value === "string" ? parseCssColor(value) : null
+  return parsed && { name: optionalString(name), description: optionalString(description), value: toPortableValue(parsed.color) }
+}
+
+/** Reads `writeJson` output; scales are matched to their color by base value, then by row. */
+export function readJson(text: string, fallbackName: string): PortablePalette {
+  const data: unknown = JSON.parse(text)
+  if (!isPaletteJson(data)) throw new Error("Expected a palette with a colors list")
+
+  const palette = paletteFromColors(
+    typeof data.name === "string" && data.name.trim() ? data.name : fallbackName,
+    data.colors.flatMap((entry) => readColor(entry) ?? []),
+  )
+
+  for (const scale of Array.isArray(data.scales) ? data.scales : []) {
+    const { row, base, curve } = (scale ?? {}) as { row?: unknown; base?: unknown; curve?: unknown }
+    if (!SCALE_CURVES.some(({ id }) => id === curve)) continue
+    const color =
+      palette.colors.find(({ value }) => value === base) ??
+      (typeof row === "number" ? palette.colors[row - 1] : undefined)
+    const stops = color && scaleFor(color.value, curve as ScaleCurve)
+    if (color && stops) color.scale = { curve: curve as ScaleCurve, stops }
+  }
+  return palette
+}
@@ -0,0 +1,80 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest"
+import { readKpl, writeKpl } from "./krita"
+import { readZip, writeZip } from "./zip"
+import type { PortablePalette } from "./types"
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+const colorsetFile = (xml: string) =>
+  writeZip([
+    { name: "mimetype", data: encode("application/x-krita-palette") },
+    { name: "colorset.xml", data: encode(xml) },
+  ])
+
+const palette: PortablePalette = {
+  name: "Brand & Co",
+  colors: [
+    { name: "primary", value: "#3b82f6" },
+    { name: "accent <hot>", value: "#ff8800" },
+    { name: "muted", value: "#808080" },
+  ],
+}
+
+describe("krita", () => {
+  it("reads back the names and colors it writes", async () => {
+    expect(await readKpl(writeKpl(palette), "Fallback")).toEqual(palette)
+  })
+
+  it("writes the mimetype entry first", async () => {
+    const entries = await readZip(writeKpl(palette))
+    expect(entries.map(({ name }) => name)).toEqual(["mimetype", "colorset.xml", "profiles.xml"])
+    expect(new TextDecoder().decode(entries[0].data)).toBe("application/x-krita-palette")
+  })
+
+  it("writes scales as groups after the palette's own colors", async () => {
+    const scaled: PortablePalette = {
+      name: "Scaled",
+      colors: [
+        {
+          name: "gray",
+          value: "#808080",
+          scale: { curve: "linear", stops: [{ step: 50, value: "#f2f2f2" }, { step: 950, value: "#0d0d0d" }] },
+        },
+      ],
+    }
+    const [, colorset] = await readZip(writeKpl(scaled))
+    expect(new TextDecoder().decode(colorset.data)).toContain('<Group name="gray scale" rows="1">')
+    expect((await readKpl(writeKpl(scaled), "Fallback")).colors).toEqual([
+      { name: "gray", value: "#808080" },
+      { name: "gray-50", value: "#f2f2f2" },
+      { name: "gray-950", value: "#0d0d0d" },
+    ])
+  })
+
+  it("reads CMYK, Lab and Gray entries", async () => {
+    const read = await readKpl(
+      colorsetFile(`<ColorSet name="Models" columns="16">
+        <ColorSetEntry name="ink"><CMYK c="0" m="1" y="1" k="0"/></ColorSetEntry>
+        <ColorSetEntry name="lab"><Lab L="100" a="0" b="0"/></ColorSetEntry>
+        <ColorSetEntry name="gray"><Gray g="0.5"/></ColorSetEntry>
+        <ColorSetEntry name="unknown"><XYZ x="0" y="0" z="0"/></ColorSetEntry>
+      </ColorSet>`),
+      "Fallback",
+    )
+    expect(read.name).toBe("Models")
+    expect(read.colors.map(({ name }) => name)).toEqual(["ink", "lab", "gray"])
+    expect(read.colors[0].value).toBe("#ff0000")
+    expect(read.colors[1].value).toBe("#ffffff")
+    expect(read.colors[2].value).toBe("#808080")
+  })
+
+  it("rejects archives without colorset.xml", async () => {
+    const other = writeZip([{ name: "Swatches.json", data: encode("[]") }])
+    await expect(readKpl(other, "Fallback")).rejects.toThrow("Not a Krita palette")
+  })
+
+  it("rejects a colorset that is not a ColorSet", async () => {
+    await expect(readKpl(colorsetFile("<Palette/>"), "Fallback")).rejects.toThrow("The Krita palette is corrupt")
+  })
+})
@@ -0,0 +1,95 @@
+import { clampColor, fromCmyk, fromLab, parseCssColor, type Color } from "@/lib/color"
+import { colorGroups, paletteFromColors, toPortableValue } from "./palette"
+import type { PortablePalette } from "./types"
+import { readZip, writeZip } from "./zip"
+
+/**
+ * Krita palette: a zip holding a `mimetype` entry, `colorset.xml` with the swatches and
+ * their grid positions, and `profiles.xml` for embedded ICC profiles, which sRGB does not need.
+ */
+
+const MIME_TYPE = "application/x-krita-palette"
+const COLUMNS = 16
+// Krita's built-in sRGB profile
+const SRGB_PROFILE = "sRGB-elle-V2-srgbtrc.icc"
+
+const escapeXml = (text: string) =>
+  text.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&apos;" })[c]!)
+
+const unit = (value: number) => String(Math.round(value * 10000) / 10000)
+
+function entryXml(name: string, value: string, index: number, indent: string): string {
+  const { r, g, b } = clampColor(parseCssColor(value)!.color)
+  return [
+    `${indent}<ColorSetEntry name="${escapeXml(name)}" id="${escapeXml(name)}" spot="false" bitdepth="U8">`,
+    `${indent} <RGB space="${SRGB_PROFILE}" r="${unit(r)}" g="${unit(g)}" b="${unit(b)}"/>`,
+    `${indent} <Position row="${Math.floor(index / COLUMNS)}" column="${index % COLUMNS}"/>`,
+    `${indent}</ColorSetEntry>`,
+  ].join("\n")
+}
+
+const rows = (count: number) => Math.max(1, Math.ceil(count / COLUMNS))
+
+/** Scales become Krita swatch groups below the palette's own colors. */
+export function writeKpl(palette: PortablePalette): Uint8Array {
+  const [main, ...scales] = colorGroups(palette)
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<ColorSet version="1.0" name="${escapeXml(palette.name)}" comment="" columns="${COLUMNS}" rows="${rows(main.colors.length)}" readonly="false">`,
+    ...main.colors.map(({ name, value }, i) => entryXml(name, value, i, " ")),
+    ...scales.flatMap(({ name, colors }) => [
+      ` <Group name="${escapeXml(name)}" rows="${rows(colors.length)}">`,
+      ...colors.map((color, i) => entryXml(color.name, color.value, i, "  ")),
+      " </Group>",
+    ]),
+    "</ColorSet>",
+    "",
+  ].join("\n")
+
+  const encoder = new TextEncoder()
+  return writeZip([
+    // Krita expects the mimetype entry first and uncompressed
+    { name: "mimetype", data: encoder.encode(MIME_TYPE) },
+    { name: "colorset.xml", data: encoder.encode(xml) },
+    { name: "profiles.xml", data: encoder.encode('<?xml version="1.0" encoding="UTF-8"?>\n<Profiles/>\n') },
+  ])
+}
+
+const attribute = (element: Element, name: string) => Number(element.getAttribute(name) ?? 0)
+
+/** The entry's color from its first color model element; Krita stores channels as 0–1. */
+function entryColor(entry: Element): Color | null {
+  for (const element of Array.from(entry.children)) {
+    switch (element.tagName) {
+      case "RGB":
+        return { r: attribute(element, "r"), g: attribute(element, "g"), b: attribute(element, "b"), alpha: 1 }
+      case "CMYK": {
+        const [c, m, y, k] = ["c", "m", "y", "k"].map((name) => attribute(element, name) * 100)
+        return fromCmyk({ c, m, y, k })
+      }
+      case "Lab":
+        return fromLab({ l: attribute(element, "L"), a: attribute(element, "a"), b: attribute(element, "b") })
+      case "Gray": {
+        const g = attribute(element, "g")
+        return { r: g, g, b: g, alpha: 1 }
+      }
+    }
+  }
+  return null
+}
+
+export async function readKpl(data: Uint8Array, fallbackName: string): Promise<PortablePalette> {
+  const entries = await readZip(data)
+  const colorset = entries.find((entry) => entry.name === "colorset.xml")
+  if (!colorset) throw new Error("Not a Krita palette")
+
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(colorset.data), "application/xml")
+  const root = doc.documentElement
+  if (root.tagName !== "ColorSet") throw new Error("The Krita palette is corrupt")
+
+  const colors = Array.from(root.getElementsByTagName("ColorSetEntry")).flatMap((entry) => {
+    const color = entryColor(entry)
+    return color ? [{ name: entry.getAttribute("name") ?? "", value: toPortableValue(color) }] : []
+  })
+  return paletteFromColors(root.getAttribute("name") || fallbackName, colors)
+}
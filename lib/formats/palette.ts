@@ -0,0 +1,160 @@
+import {
+  SCALE_CURVES,
+  SCALE_STEPS,
+  formatDisplayP3,
+  formatHex,
+  generateScale,
+  isInGamut,
+  parseColor,
+  parseCssColor,
+  type Color,
+  type ScaleCurve,
+  type ScaleStop,
+} from "@/lib/color"
+import { createSlot, getSlotScale, type PaletteSlot } from "@/lib/palette"
+import type { PortableColor, PortablePalette } from "./types"
+
+export const DEFAULT_PALETTE_NAME = "My Color Palette"
+
+/** Lowercase kebab-case, safe as a CSS custom property, Sass or Less variable and Tailwind key. */
+export function toIdentifier(name: string): string {
+  const slug = name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+  return /^[0-9]/.test(slug) ? `color-${slug}` : slug
+}
+
+/** Keys for every color derived from its name, suffixed with -2, -3… where they collide. */
+export function uniqueKeys(colors: PortableColor[], toKey: (name: string) => string): string[] {
+  const used = new Set<string>()
+  return colors.map(({ name }) => {
+    const base = toKey(name) || "color"
+    let key = base
+    for (let n = 2; used.has(key); n++) key = `${base}-${n}`
+    used.add(key)
+    return key
+  })
+}
+
+export const colorIdentifiers = (colors: PortableColor[]) => uniqueKeys(colors, toIdentifier)
+
+// Half an 8-bit step: files store rounded channels or Lab values, which can push an sRGB color
+// just past the gamut edge, and anything closer than this clips to the same hex anyway
+const FILE_GAMUT_TOLERANCE = 0.5 / 255
+
+/**
+ * Hex for colors inside sRGB, Display-P3 for the rest, as stored in `PortableColor.value`.
+ * Colors within rounding of sRGB are clipped to hex rather than kept as Display-P3.
+ */
+export const toPortableValue = (color: Color) =>
+  isInGamut(color, FILE_GAMUT_TOLERANCE) ? formatHex(color) : formatDisplayP3(color)
+
+/** A named run of colors, as swatch formats that support groups store them. */
+export interface ColorGroup {
+  name: string
+  colors: { name: string; value: string }[]
+}
+
+/** The palette's colors, then each generated scale, as groups. Scale steps are named `<color>-<step>`. */
+export function colorGroups({ name, colors }: PortablePalette): ColorGroup[] {
+  return [
+    { name, colors },
+    ...colors.flatMap(({ name: colorName, scale }) =>
+      scale
+        ? [
+            {
+              name: `${colorName} scale`,
+              colors: scale.stops.map(({ step, value }) => ({ name: `${colorName}-${step}`, value })),
+            },
+          ]
+        : [],
+    ),
+  ]
+}
+
+/** Builds an imported palette, naming unnamed colors by position. Throws when there are none. */
+export function paletteFromColors(
+  name: string,
+  colors: { name?: string; description?: string; value: string }[],
+): PortablePalette {
+  if (colors.length === 0) throw new Error("The file contains no colors")
+  return {
+    name,
+    colors: colors.map((color, i) => ({
+      name: color.name?.trim() || defaultColorName(i),
+      ...(color.description && { description: color.description }),
+      value: color.value,
+    })),
+  }
+}
+
+/** The scale a row with this color would get: generated from its sRGB hex, like `getSlotScale`. */
+export function scaleFor(value: string, curve: ScaleCurve): ScaleStop[] | null {
+  const parsed = parseCssColor(value)
+  return parsed ? generateScale(parseColor(formatHex(parsed.color))!, curve) : null
+}
+
+const sameHex = (a: string, b: string) => {
+  const parsed = parseCssColor(b)
+  return parsed !== null && formatHex(parsed.color) === a
+}
+
+/**
+ * Folds runs of `<name>-50` … `<name>-950` colors back into their base color's scale when
+ * they match one of the scale curves exactly, undoing how flat formats export scales.
+ */
+export function collapseScales(colors: PortableColor[]): PortableColor[] {
+  const byName = new Map(colors.map((color) => [color.name, color]))
+  const absorbed = new Set<PortableColor>()
+
+  const collapsed = colors.map((color) => {
+    if (color.scale) return color
+    const steps = SCALE_STEPS.map((step) => byName.get(`${color.name}-${step}`))
+    if (steps.some((step) => !step)) return color
+    for (const { id } of SCALE_CURVES) {
+      const stops = scaleFor(color.value, id)
+      if (!stops?.every((stop, i) => sameHex(stop.value, steps[i]!.value))) continue
+      steps.forEach((step) => absorbed.add(step!))
+      return { ...color, scale: { curve: id, stops } }
+    }
+    return color
+  })
+  return collapsed.filter((color) => !absorbed.has(color))
+}
+
+/** Name used for a row that has none of its own. */
+export const defaultColorName = (index: number) => `palette-${index + 1}`
+
+/**
+ * Collects the valid rows of the palette for export. Unnamed rows are named after their
+ * 1-based position; colors outside sRGB are written as Display-P3 rather than clipped.
+ */
+export function toPortablePalette(slots: PaletteSlot[], name = DEFAULT_PALETTE_NAME): PortablePalette {
+  const colors = slots.flatMap((slot, index): PortableColor[] => {
+    if (!slot.value) return []
+    const parsed = parseCssColor(slot.input)
+    const value = parsed && !isInGamut(parsed.color) ? formatDisplayP3(parsed.color) : slot.value
+    const stops = getSlotScale(slot)
+    return [
+      {
+        name: slot.name?.trim() || defaultColorName(index),
+        ...(slot.description && { description: slot.description }),
+        value,
+        ...(slot.scale && stops && { scale: { curve: slot.scale, stops } }),
+      },
+    ]
+  })
+  return { name, colors }
+}
+
+/** Turns an imported palette back into rows, keeping names, descriptions and scale curves. */
+export function fromPortablePalette({ colors }: PortablePalette): PaletteSlot[] {
+  return colors.map(({ name, description, value, scale }) => ({
+    ...createSlot(value),
+    name,
+    ...(description && { description }),
+    ...(scale && { scale: scale.curve }),
+  }))
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest"
+import { PROCREATE_MAX_SWATCHES, readProcreate, writeProcreate } from "./procreate"
+import { readZip, writeZip } from "./zip"
+import type { PortablePalette } from "./types"
+
+const swatchesFile = (json: unknown) =>
+  writeZip([{ name: "Swatches.json", data: new TextEncoder().encode(JSON.stringify(json)) }])
+
+const palette: PortablePalette = {
+  name: "Brand",
+  colors: [
+    { name: "palette-1", value: "#3b82f6" },
+    { name: "palette-2", value: "#ff8800" },
+    { name: "palette-3", value: "#808080" },
+  ],
+}
+
+describe("procreate", () => {
+  it("reads back the palette name and colors it writes", async () => {
+    expect(await readProcreate(writeProcreate(palette), "Fallback")).toEqual(palette)
+  })
+
+  it("writes HSB swatches into Swatches.json", async () => {
+    const [file] = await readZip(writeProcreate(palette))
+    expect(file.name).toBe("Swatches.json")
+    const [{ name, swatches }] = JSON.parse(new TextDecoder().decode(file.data))
+    expect(name).toBe("Brand")
+    expect(swatches[1]).toEqual({ hue: expect.closeTo(32 / 360, 3), saturation: 1, brightness: 1, alpha: 1, colorSpace: 0 })
+  })
+
+  it("stops at Procreate's swatch limit", async () => {
+    const many: PortablePalette = {
+      name: "Grays",
+      colors: Array.from({ length: 40 }, (_, i) => ({ name: `gray-${i}`, value: `rgb(${i} ${i} ${i})` })),
+    }
+    expect((await readProcreate(writeProcreate(many), "Grays")).colors).toHaveLength(PROCREATE_MAX_SWATCHES)
+  })
+
+  it("skips empty slots and swatches without all three channels", async () => {
+    const read = await readProcreate(
+      swatchesFile({
+        name: "Sparse",
+        swatches: [null, { hue: 0, saturation: 1, brightness: 1 }, { hue: 0.5 }, { hue: 0, saturation: "1", brightness: 1 }, 7],
+      }),
+      "Fallback",
+    )
+    expect(read).toEqual({ name: "Sparse", colors: [{ name: "palette-1", value: "#ff0000" }] })
+  })
+
+  it("reads Display-P3 swatches beyond sRGB as Display-P3", async () => {
+    const read = await readProcreate(
+      swatchesFile([{ swatches: [{ hue: 1 / 3, saturation: 1, brightness: 1, alpha: 1, colorSpace: 1 }] }]),
+      "Fallback",
+    )
+    expect(read.name).toBe("Fallback")
+    expect(read.colors[0].value).toMatch(/^color\(display-p3 /)
+  })
+
+  it("rejects archives without Swatches.json", async () => {
+    const other = writeZip([{ name: "colorset.xml", data: new TextEncoder().encode("<ColorSet/>") }])
+    await expect(readProcreate(other, "Fallback")).rejects.toThrow("Not a Procreate swatches file")
+  })
+
+  it.each([
+    ["invalid JSON", writeZip([{ name: "Swatches.json", data: new TextEncoder().encode("{") }])],
+    ["null content", swatchesFile(null)],
+    ["null palettes", swatchesFile([null])],
+    ["a list of numbers", swatchesFile([1, 2])],
+  ])("rejects %s as corrupt", async (_, file) => {
+    await expect(readProcreate(file, "Fallback")).rejects.toThrow("The Procreate swatches file is corrupt")
+  })
+})
@@ -0,0 +1,80 @@
+import { clampColor, fromHsv, fromPredefined, parseCssColor, toHsv } from "@/lib/color"
+import { colorGroups, paletteFromColors, toPortableValue } from "./palette"
+import type { PortablePalette } from "./types"
+import { readZip, writeZip } from "./zip"
+
+/**
+ * Procreate palette: a zip holding `Swatches.json`, an array of palettes whose swatches
+ * are HSB in 0–1. Procreate has no swatch names and shows at most 30 swatches.
+ */
+
+const SWATCHES_FILE = "Swatches.json"
+export const PROCREATE_MAX_SWATCHES = 30
+const SRGB = 0
+const DISPLAY_P3 = 1
+
+interface ProcreateSwatch {
+  hue: number
+  saturation: number
+  brightness: number
+  alpha: number
+  colorSpace?: number
+}
+
+// Read from untrusted JSON, so only the shape is known
+interface ProcreatePalette {
+  name?: unknown
+  swatches?: unknown
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isProcreatePalette = (value: unknown): value is ProcreatePalette => isObject(value)
+
+// Empty slots are null, and anything without all three HSB channels cannot be placed
+const isProcreateSwatch = (value: unknown): value is ProcreateSwatch =>
+  isObject(value) && ["hue", "saturation", "brightness"].every((channel) => typeof value[channel] === "number")
+
+/** The palette's colors followed by its scales, cut off at Procreate's limit. */
+export function writeProcreate(palette: PortablePalette): Uint8Array {
+  const swatches = colorGroups(palette)
+    .flatMap(({ colors }) => colors)
+    .slice(0, PROCREATE_MAX_SWATCHES)
+    .map(({ value }): ProcreateSwatch => {
+      const color = clampColor(parseCssColor(value)!.color)
+      const { h, s, v } = toHsv(color)
+      return { hue: h / 360, saturation: s / 100, brightness: v / 100, alpha: color.alpha, colorSpace: SRGB }
+    })
+  const json: ProcreatePalette[] = [{ name: palette.name, swatches }]
+  return writeZip([{ name: SWATCHES_FILE, data: new TextEncoder().encode(JSON.stringify(json)) }])
+}
+
+/** Reads every palette in the file; the first one names the result. */
+export async function readProcreate(data: Uint8Array, fallbackName: string): Promise<PortablePalette> {
+  const file = (await readZip(data)).find((entry) => entry.name.toLowerCase() === SWATCHES_FILE.toLowerCase())
+  if (!file) throw new Error("Not a Procreate swatches file")
+
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(new TextDecoder().decode(file.data))
+  } catch {
+    throw new Error("The Procreate swatches file is corrupt")
+  }
+  const palettes: unknown[] = Array.isArray(parsed) ? parsed : [parsed]
+  if (!palettes.every(isProcreatePalette)) throw new Error("The Procreate swatches file is corrupt")
+
+  const colors = palettes.flatMap(({ swatches }) =>
+    (Array.isArray(swatches) ? swatches : []).flatMap((swatch) => {
+      if (!isProcreateSwatch(swatch)) return []
+      const hsv = { h: swatch.hue * 360, s: swatch.saturation * 100, v: swatch.brightness * 100 }
+      const alpha = typeof swatch.alpha === "number" ? swatch.alpha : 1
+      // HSB over Display-P3 coordinates rather than sRGB
+      const { r, g, b } = fromHsv(hsv)
+      const color = swatch.colorSpace === DISPLAY_P3 ? fromPredefined("display-p3", [r, g, b], alpha) : fromHsv(hsv, alpha)
+      return [{ value: toPortableValue(color) }]
+    }),
+  )
+  const name = palettes[0]?.name
+  return paletteFromColors((typeof name === "string" && name) || fallbackName, colors)
+}
@@ -0,0 +1,70 @@
+import { clampColor, fromCmyk, fromLab, parseCssColor, toCmyk, toLab, type Color } from "@/lib/color"
+
+/** Color models shared by the Adobe swatch formats. */
+export type SwatchModel = "RGB" | "CMYK" | "LAB" | "Gray"
+
+/** How Adobe apps treat a swatch: global swatches update everywhere, spot colors are separate inks. */
+export type SwatchType = "global" | "spot" | "process"
+
+/**
+ * A swatch as stored in ASE and ACO files. Values are RGB, CMYK and Gray in 0–1 and
+ * Lab with lightness 0–100; Gray is a gray level, so 1 is white.
+ */
+export interface Swatch {
+  name: string
+  model: SwatchModel
+  values: number[]
+  type: SwatchType
+}
+
+export const SWATCH_MODELS: { id: SwatchModel; label: string }[] = [
+  { id: "RGB", label: "RGB" },
+  { id: "CMYK", label: "CMYK" },
+  { id: "LAB", label: "Lab" },
+]
+
+export const SWATCH_TYPES: { id: SwatchType; label: string }[] = [
+  { id: "process", label: "Process" },
+  { id: "global", label: "Global" },
+  { id: "spot", label: "Spot" },
+]
+
+export function toSwatch(name: string, value: string, model: SwatchModel, type: SwatchType): Swatch {
+  const color = parseCssColor(value)?.color ?? { r: 0, g: 0, b: 0, alpha: 1 }
+  return { name, model, values: swatchValues(color, model), type }
+}
+
+function swatchValues(color: Color, model: SwatchModel): number[] {
+  switch (model) {
+    case "RGB": {
+      const { r, g, b } = clampColor(color)
+      return [r, g, b]
+    }
+    case "CMYK": {
+      const { c, m, y, k } = toCmyk(color)
+      return [c / 100, m / 100, y / 100, k / 100]
+    }
+    case "LAB": {
+      // Lab is unbounded, so colors outside sRGB survive unclipped
+      const { l, a, b } = toLab(color)
+      return [l, a, b]
+    }
+    case "Gray": {
+      const { r, g, b } = clampColor(color)
+      return [0.2126 * r + 0.7152 * g + 0.0722 * b]
+    }
+  }
+}
+
+export function swatchColor({ model, values }: Swatch): Color {
+  switch (model) {
+    case "RGB":
+      return { r: values[0], g: values[1], b: values[2], alpha: 1 }
+    case "CMYK":
+      return fromCmyk({ c: values[0] * 100, m: values[1] * 100, y: values[2] * 100, k: values[3] * 100 })
+    case "LAB":
+      return fromLab({ l: values[0], a: values[1], b: values[2] })
+    case "Gray":
+      return { r: values[0], g: values[0], b: values[0], alpha: 1 }
+  }
+}
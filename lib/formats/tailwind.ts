@@ -0,0 +1,117 @@
+import { parseCssColor } from "@/lib/color"
+import { colorIdentifiers, paletteFromColors, toPortableValue } from "./palette"
+import type { PortablePalette } from "./types"
+
+const quote = (text: string) => JSON.stringify(text)
+
+/**
+ * A Tailwind v3 config extending `theme.colors`. Colors with a scale become nested objects
+ * with the base as `DEFAULT`, so both `bg-primary` and `bg-primary-500` work.
+ */
+export function writeTailwindConfig({ name, colors }: PortablePalette): string {
+  const ids = colorIdentifiers(colors)
+  const entries = colors.map(({ value, scale }, i) => {
+    if (!scale) return `        ${quote(ids[i])}: ${quote(value)},`
+    const steps = scale.stops.map(({ step, value }) => `          ${step}: ${quote(value)},`)
+    return [`        ${quote(ids[i])}: {`, `          DEFAULT: ${quote(value)},`, ...steps, "        },"].join("\n")
+  })
+
+  return [
+    `// ${name}`,
+    "/** @type {import('tailwindcss').Config} */",
+    "module.exports = {",
+    "  theme: {",
+    "    extend: {",
+    "      colors: {",
+    ...entries,
+    "      },",
+    "    },",
+    "  },",
+    "}",
+    "",
+  ].join("\n")
+}
+
+type JsToken = { kind: "punct" | "string" | "word"; value: string }
+
+/** Splits JavaScript into strings, words and punctuation, dropping whitespace and comments. */
+function tokenize(source: string): JsToken[] {
+  const tokens: JsToken[] = []
+  const pattern = /\/\/[^\n]*|\/\*[\s\S]*?\*\/|(["'`])((?:\\.|(?!\1)[^\\])*)\1|([\w$.-]+)|(\S)/g
+  for (const [match, , text, word, punct] of source.matchAll(pattern)) {
+    if (match.startsWith("//") || match.startsWith("/*")) continue
+    if (text !== undefined) tokens.push({ kind: "string", value: text })
+    else if (word !== undefined) tokens.push({ kind: "word", value: word })
+    else tokens.push({ kind: "punct", value: punct })
+  }
+  return tokens
+}
+
+type JsObject = { [key: string]: string | JsObject }
+
+/**
+ * Parses an object literal starting at the `{` at `start`. String and nested object values
+ * are kept; anything else, such as function calls or references, is skipped.
+ */
+function parseObject(tokens: JsToken[], start: number): { value: JsObject; end: number } {
+  const value: JsObject = {}
+  let i = start + 1
+  while (i < tokens.length && tokens[i].value !== "}") {
+    const key = tokens[i]
+    if (key.value === ",") {
+      i++
+      continue
+    }
+    if (tokens[i + 1]?.value !== ":") {
+      i++
+      continue
+    }
+    i += 2
+    if (tokens[i]?.value === "{" && tokens[i].kind === "punct") {
+      const nested = parseObject(tokens, i)
+      value[key.value] = nested.value
+      i = nested.end + 1
+    } else if (tokens[i]?.kind === "string" && [",", "}"].includes(tokens[i + 1]?.value)) {
+      value[key.value] = tokens[i].value
+      i++
+    } else {
+      // Skip the expression up to the next comma or closing brace at this depth
+      for (let depth = 0; i < tokens.length; i++) {
+        const t = tokens[i]
+        if (t.kind === "punct" && "([{".includes(t.value)) depth++
+        else if (t.kind === "punct" && ")]}".includes(t.value)) {
+          if (depth === 0) break
+          depth--
+        } else if (depth === 0 && t.value === ",") break
+      }
+    }
+  }
+  return { value, end: i }
+}
+
+/** Nested keys joined with dashes; `DEFAULT` stands for its parent, as in Tailwind. */
+function flattenColors(object: JsObject, prefix = ""): { name: string; value: string }[] {
+  return Object.entries(object).flatMap(([key, value]) => {
+    const name = key === "DEFAULT" ? prefix : prefix ? `${prefix}-${key}` : key
+    if (typeof value !== "string") return flattenColors(value, name)
+    const parsed = parseCssColor(value)
+    return parsed && name ? [{ name, value: toPortableValue(parsed.color) }] : []
+  })
+}
+
+const COLORS_KEY = /\bcolors\s*:\s*\{/
+
+export const isTailwindConfig = (text: string) =>
+  COLORS_KEY.test(text) && /module\.exports|export\s+default|\btheme\s*:/.test(text)
+
+/** Reads every `colors` object in a Tailwind config, whether under `theme` or `theme.extend`. */
+export function readTailwindConfig(text: string, fallbackName: string): PortablePalette {
+  const tokens = tokenize(text)
+  const colors = tokens.flatMap((token, i) =>
+    token.value === "colors" && tokens[i + 1]?.value === ":" && tokens[i + 2]?.value === "{"
+      ? flattenColors(parseObject(tokens, i + 2).value)
+      : [],
+  )
+  const comment = /^\s*\/\/\s*(.+)/.exec(text)
+  return paletteFromColors(comment?.[1].trim() || fallbackName, colors)
+}
@@ -0,0 +1,216 @@
+import {
+  SCALE_CURVES,
+  formatHex,
+  fromPredefined,
+  isInGamut,
+  isPredefinedSpace,
+  parseCssColor,
+  toDisplayP3,
+  type ScaleCurve,
+} from "@/lib/color"
+import { DEFAULT_PALETTE_NAME, scaleFor, toPortableValue, uniqueKeys } from "./palette"
+import type { PortableColor, PortablePalette } from "./types"
+
+/**
+ * Design Tokens Community Group format, which Style Dictionary v4 reads directly. Base colors
+ * live in a `palette` group and scales in a `scale` group whose matching step is an alias of
+ * the base. What DTCG cannot express (the palette name, scale curves) goes in `$extensions`
+ * so an exported file imports back unchanged.
+ */
+
+const EXTENSION = "app.color-palette"
+const PALETTE_GROUP = "palette"
+const SCALE_GROUP = "scale"
+const ALIAS = /^\{([^{}]+)\}$/
+
+type TokenNode = { [key: string]: unknown }
+
+interface PaletteExtension {
+  name?: string
+}
+
+interface ScaleExtension {
+  curve?: ScaleCurve
+  /** Alias of the palette token the scale was generated from. */
+  base?: string
+}
+
+/** Token names may not contain dots or braces, nor start with `$`. */
+const toTokenKey = (name: string) => name.trim().replace(/[.{}]/g, "-").replace(/^\$+/, "")
+
+const round = (value: number) => Math.round(value * 10000) / 10000
+
+/** sRGB colors as hex strings; wider colors in the DTCG object form, with a hex fallback. */
+function tokenValue(value: string): unknown {
+  const color = parseCssColor(value)?.color
+  if (!color || isInGamut(color)) return value
+  return {
+    colorSpace: "display-p3",
+    components: toDisplayP3(color).map(round),
+    ...(color.alpha < 1 && { alpha: round(color.alpha) }),
+    hex: formatHex(color),
+  }
+}
+
+export function writeDesignTokens({ name, colors }: PortablePalette): string {
+  const keys = uniqueKeys(colors, toTokenKey)
+  const palette: TokenNode = { $type: "color" }
+  const scales: TokenNode = { $type: "color" }
+
+  colors.forEach(({ value, description, scale }, i) => {
+    const alias = `{${PALETTE_GROUP}.${keys[i]}}`
+    palette[keys[i]] = { $value: tokenValue(value), ...(description && { $description: description }) }
+    if (!scale) return
+    const extension: ScaleExtension = { curve: scale.curve, base: alias }
+    scales[keys[i]] = {
+      $extensions: { [EXTENSION]: extension },
+      ...Object.fromEntries(
+        scale.stops.map(({ step, value: stop }) => [step, { $value: stop === value ? alias : tokenValue(stop) }]),
+      ),
+    }
+  })
+
+  const extension: PaletteExtension = { name }
+  const root: TokenNode = {
+    $description: name,
+    $extensions: { [EXTENSION]: extension },
+    [PALETTE_GROUP]: palette,
+    ...(Object.keys(scales).length > 1 && { [SCALE_GROUP]: scales }),
+  }
+  return JSON.stringify(root, null, 2)
+}
+
+interface Token {
+  path: string[]
+  value: unknown
+  type?: string
+  description?: string
+}
+
+const isNode = (value: unknown): value is TokenNode =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const extensionOf = <T>(node: TokenNode): T | undefined => {
+  const extensions = node.$extensions
+  return isNode(extensions) && isNode(extensions[EXTENSION]) ? (extensions[EXTENSION] as T) : undefined
+}
+
+/** Style Dictionary's older format uses `value`/`type`/`comment` without the `$` prefix. */
+const isToken = (node: TokenNode) => "$value" in node || typeof node.value === "string"
+
+/**
+ * Walks groups depth first, passing `$type` down. Scale groups written by this app are
+ * reported to `onScale` instead, since they are regenerated from the curve on import.
+ */
+function collectTokens(
+  node: TokenNode,
+  path: string[],
+  inheritedType: string | undefined,
+  tokens: Token[],
+  onScale: (extension: ScaleExtension) => void,
+): void {
+  const type = typeof node.$type === "string" ? node.$type : typeof node.type === "string" ? node.type : inheritedType
+  if (isToken(node)) {
+    const description = node.$description ?? node.comment
+    tokens.push({
+      path,
+      value: "$value" in node ? node.$value : node.value,
+      type,
+      ...(typeof description === "string" && { description }),
+    })
+    return
+  }
+
+  const scale = extensionOf<ScaleExtension>(node)
+  if (scale?.curve) {
+    onScale(scale)
+    return
+  }
+  for (const [key, child] of Object.entries(node)) {
+    if (!key.startsWith("$") && isNode(child)) collectTokens(child, [...path, key], type, tokens, onScale)
+  }
+}
+
+/** Whether the text is a JSON object holding at least one token, in DTCG or Style Dictionary form. */
+export function isDesignTokens(text: string): boolean {
+  let root: unknown
+  try {
+    root = JSON.parse(text)
+  } catch {
+    return false
+  }
+  if (!isNode(root)) return false
+  const tokens: Token[] = []
+  collectTokens(root, [], undefined, tokens, () => {})
+  return tokens.length > 0
+}
+
+/** Reads a color from a CSS string or the DTCG `{ colorSpace, components, alpha, hex }` object. */
+function parseTokenColor(value: unknown): string | null {
+  if (typeof value === "string") {
+    const parsed = parseCssColor(value)
+    return parsed ? toPortableValue(parsed.color) : null
+  }
+  if (!isNode(value)) return null
+
+  const { colorSpace, components, alpha, hex } = value
+  if (typeof colorSpace === "string" && isPredefinedSpace(colorSpace) && Array.isArray(components)) {
+    const [c1, c2, c3] = components.map((c) => (typeof c === "number" ? c : 0))
+    return toPortableValue(fromPredefined(colorSpace, [c1, c2, c3], typeof alpha === "number" ? alpha : 1))
+  }
+  return typeof hex === "string" ? parseTokenColor(hex) : null
+}
+
+/**
+ * Parses DTCG or Style Dictionary JSON into a palette. Every color token becomes a color,
+ * named after its path; aliases are resolved, and untyped tokens count when they parse as
+ * colors. Throws when the file is not JSON, an alias is broken, or no colors are found.
+ */
+export function readDesignTokens(text: string, fallbackName = DEFAULT_PALETTE_NAME): PortablePalette {
+  let root: unknown
+  try {
+    root = JSON.parse(text)
+  } catch {
+    throw new Error("The file is not valid JSON")
+  }
+  if (!isNode(root)) throw new Error("Expected a design tokens object")
+
+  const tokens: Token[] = []
+  const scales: ScaleExtension[] = []
+  collectTokens(root, [], undefined, tokens, (scale) => scales.push(scale))
+  const byPath = new Map(tokens.map((token) => [token.path.join("."), token]))
+
+  const resolve = (token: Token, seen: string[] = []): unknown => {
+    const alias = typeof token.value === "string" && ALIAS.exec(token.value.trim())
+    if (!alias) return token.value
+    const target = alias[1]
+    if (seen.includes(target)) throw new Error(`Circular alias {${target}}`)
+    const referenced = byPath.get(target)
+    if (!referenced) throw new Error(`Unknown alias {${target}} in ${token.path.join(".")}`)
+    return resolve(referenced, [...seen, target])
+  }
+
+  // Files written by this app keep colors in one group, which is left out of the names
+  const own = extensionOf<PaletteExtension>(root)
+  const colors = new Map<Token, PortableColor>()
+  for (const token of tokens) {
+    if (token.type && token.type !== "color") continue
+    const value = parseTokenColor(resolve(token))
+    if (!value) continue
+    const path = own && token.path[0] === PALETTE_GROUP ? token.path.slice(1) : token.path
+    colors.set(token, { name: path.join("-"), value, ...(token.description && { description: token.description }) })
+  }
+  if (colors.size === 0) throw new Error("No color tokens found")
+
+  for (const { curve, base } of scales) {
+    const alias = base ? ALIAS.exec(base) : null
+    const token = alias ? byPath.get(alias[1]) : undefined
+    const color = token && colors.get(token)
+    if (!color || !SCALE_CURVES.some(({ id }) => id === curve)) continue
+    const stops = scaleFor(color.value, curve!)
+    if (stops) color.scale = { curve: curve!, stops }
+  }
+
+  const name = own?.name ?? (typeof root.$description === "string" ? root.$description : fallbackName)
+  return { name, colors: [...colors.values()] }
+}
@@ -0,0 +1,71 @@
+import type { ScaleCurve, ScaleStop } from "@/lib/color"
+import type { SwatchModel, SwatchType } from "./swatch"
+
+/** A palette color as written to and read from files, independent of the editor's rows. */
+export interface PortableColor {
+  name: string
+  description?: string
+  /** Hex, or `color(display-p3 …)` for colors outside sRGB. */
+  value: string
+  scale?: { curve: ScaleCurve; stops: ScaleStop[] }
+}
+
+export interface PortablePalette {
+  name: string
+  colors: PortableColor[]
+}
+
+export type ExportFormat =
+  | "css"
+  | "scss"
+  | "less"
+  | "tailwind"
+  | "tailwind-v4"
+  | "json"
+  | "dtcg"
+  | "ase"
+  | "aco"
+  | "gpl"
+  | "kpl"
+  | "procreate"
+
+/** Settings for the swatch formats; text formats ignore them. */
+export interface ExportOptions {
+  swatchModel: SwatchModel
+  swatchType: SwatchType
+}
+
+export interface ExportFormatSpec {
+  id: ExportFormat
+  label: string
+  /** File name extension, without the dot. */
+  extension: string
+  mimeType: string
+  /** Text formats return a string, binary ones the file's bytes. */
+  write: (palette: PortablePalette, options: ExportOptions) => string | Uint8Array
+  /** Options the format honours, so only those are offered. */
+  options?: (keyof ExportOptions)[]
+}
+
+export type ImportFormat =
+  | "ase"
+  | "aco"
+  | "kpl"
+  | "procreate"
+  | "gpl"
+  | "json"
+  | "dtcg"
+  | "tailwind"
+  | "css"
+  | "hex"
+
+export interface ImportFormatSpec {
+  id: ImportFormat
+  label: string
+  /** Extensions recognised on import, without the dot. */
+  extensions: string[]
+  /** Recognises the format from its content, for files with an unexpected extension. */
+  detect?: (data: Uint8Array) => boolean
+  /** `fallbackName` names palettes from files that do not store a name. Zipped formats read asynchronously. */
+  read: (data: Uint8Array, fallbackName: string) => PortablePalette | Promise<PortablePalette>
+}
@@ -0,0 +1,44 @@
+import { readFileSync } from "node:fs"
+import { describe, expect, it } from "vitest"
+import { isZip, readZip, writeZip, type ZipEntry } from "./zip"
+
+// Written by Python's zipfile: a deflated text file, a stored binary file and an archive comment
+const fixture = new Uint8Array(readFileSync(new URL("./fixtures/deflated.zip", import.meta.url)))
+
+const entries: ZipEntry[] = [
+  { name: "mimetype", data: new TextEncoder().encode("application/x-krita-palette") },
+  { name: "Farben/Grün.json", data: new TextEncoder().encode('{"name":"Grün"}') },
+  { name: "empty", data: new Uint8Array() },
+  { name: "bytes.bin", data: Uint8Array.from({ length: 256 }, (_, i) => i) },
+]
+
+describe("zip", () => {
+  it("recognises the signature", () => {
+    expect(isZip(writeZip(entries))).toBe(true)
+    expect(isZip(fixture)).toBe(true)
+    expect(isZip(new TextEncoder().encode("GIMP Palette"))).toBe(false)
+  })
+
+  it("reads back what it writes, in order and with UTF-8 names", async () => {
+    expect(await readZip(writeZip(entries))).toEqual(entries)
+  })
+
+  it("reads deflated and stored entries from other tools", async () => {
+    const [notes, raw] = await readZip(fixture)
+    expect(notes.name).toBe("notes.txt")
+    expect(new TextDecoder().decode(notes.data)).toBe("Deflated palette notes\n".repeat(20))
+    expect(raw).toEqual({ name: "raw.bin", data: Uint8Array.from({ length: 16 }, (_, i) => i) })
+  })
+
+  it("rejects other files", async () => {
+    await expect(readZip(new TextEncoder().encode("GIMP Palette\nName: Brand\n"))).rejects.toThrow("Not a zip archive")
+  })
+
+  it("rejects a damaged central directory", async () => {
+    const archive = writeZip(entries)
+    const view = new DataView(archive.buffer)
+    // Point the end record at the start of the file, where a local header sits instead
+    view.setUint32(archive.length - 6, 0, true)
+    await expect(readZip(archive)).rejects.toThrow("The zip directory is corrupt")
+  })
+})
@@ -0,0 +1,156 @@
+import { createByteReader, createByteWriter } from "./bytes"
+
+/**
+ * Just enough of the zip format for the zipped palette formats: archives are written
+ * uncompressed, and read back whether their entries are stored or deflated.
+ */
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_DIRECTORY = 0x06054b50
+const STORED = 0
+const DEFLATED = 8
+// General purpose flag marking file names as UTF-8
+const UTF8_NAMES = 0x0800
+const VERSION = 20
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** MS-DOS time and date words, as stored in zip headers. */
+function dosDateTime(date: Date): [number, number] {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1)
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  return [time, day]
+}
+
+export function writeZip(entries: ZipEntry[]): Uint8Array {
+  const out = createByteWriter(true)
+  const directory = createByteWriter(true)
+  const [time, date] = dosDateTime(new Date())
+  const encoder = new TextEncoder()
+
+  for (const { name, data } of entries) {
+    const fileName = encoder.encode(name)
+    const crc = crc32(data)
+    const offset = out.length
+    // Fields shared by the local header and its central directory record
+    const writeFields = (header: ReturnType<typeof createByteWriter>) => {
+      header.uint16(UTF8_NAMES)
+      header.uint16(STORED)
+      header.uint16(time)
+      header.uint16(date)
+      header.uint32(crc)
+      header.uint32(data.length)
+      header.uint32(data.length)
+      header.uint16(fileName.length)
+      header.uint16(0)
+    }
+
+    out.uint32(LOCAL_HEADER)
+    out.uint16(VERSION)
+    writeFields(out)
+    out.bytes(fileName)
+    out.bytes(data)
+
+    directory.uint32(CENTRAL_HEADER)
+    directory.uint16(VERSION)
+    directory.uint16(VERSION)
+    writeFields(directory)
+    directory.uint16(0) // comment length
+    directory.uint16(0) // disk number
+    directory.uint16(0) // internal attributes
+    directory.uint32(0) // external attributes
+    directory.uint32(offset)
+    directory.bytes(fileName)
+  }
+
+  const directoryOffset = out.length
+  out.bytes(directory.toBytes())
+  out.uint32(END_OF_DIRECTORY)
+  out.uint16(0)
+  out.uint16(0)
+  out.uint16(entries.length)
+  out.uint16(entries.length)
+  out.uint32(directory.length)
+  out.uint32(directoryOffset)
+  out.uint16(0)
+  return out.toBytes()
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream("deflate-raw"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+export const isZip = (data: Uint8Array) =>
+  data.length >= 4 && new DataView(data.buffer, data.byteOffset).getUint32(0, true) === LOCAL_HEADER
+
+/** Reads every file in the archive, located through its central directory. */
+export async function readZip(data: Uint8Array): Promise<ZipEntry[]> {
+  const input = createByteReader(data, true)
+  // The end record sits at the very end, before an optional comment of up to 64 KB
+  let end = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    input.seek(i)
+    if (input.uint32() === END_OF_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw new Error("Not a zip archive")
+
+  input.seek(end + 10)
+  const count = input.uint16()
+  input.skip(4)
+  input.seek(input.uint32())
+
+  const decoder = new TextDecoder()
+  const records = Array.from({ length: count }, () => {
+    if (input.uint32() !== CENTRAL_HEADER) throw new Error("The zip directory is corrupt")
+    input.skip(6)
+    const method = input.uint16()
+    input.skip(8)
+    const size = input.uint32()
+    input.skip(4)
+    const nameLength = input.uint16()
+    const extraLength = input.uint16()
+    const commentLength = input.uint16()
+    input.skip(8)
+    const offset = input.uint32()
+    const name = decoder.decode(input.bytes(nameLength))
+    input.skip(extraLength + commentLength)
+    return { name, method, size, offset }
+  })
+
+  return Promise.all(
+    records.map(async ({ name, method, size, offset }) => {
+      input.seek(offset + 26)
+      const nameLength = input.uint16()
+      const extraLength = input.uint16()
+      input.skip(nameLength + extraLength)
+      const stored = input.bytes(size)
+      if (method === STORED) return { name, data: stored }
+      if (method === DEFLATED) return { name, data: await inflateRaw(stored) }
+      throw new Error(`Unsupported zip compression method ${method}`)
+    }),
+  )
+}
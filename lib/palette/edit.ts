@@ -0,0 +1,75 @@
+import { createEmptySlot, isSlotEmpty, setSlotInput, type PaletteSlot } from "./slot"
+
+export const DEFAULT_PALETTE_SIZE = 10
+export const DEFAULT_MAX_PALETTE_SIZE = 64
+
+/** Inserts empty rows before `index`, never growing past `max`. */
+export function insertSlots(slots: PaletteSlot[], index: number, count: number, max: number): PaletteSlot[] {
+  const room = Math.max(0, Math.min(count, max - slots.length))
+  const inserted = Array.from({ length: room }, createEmptySlot)
+  return [...slots.slice(0, index), ...inserted, ...slots.slice(index)]
+}
+
+/** Removes a row, leaving a single empty row rather than an empty palette. */
+export function removeSlot(slots: PaletteSlot[], index: number): PaletteSlot[] {
+  const remaining = slots.filter((_, i) => i !== index)
+  return remaining.length > 0 ? remaining : [createEmptySlot()]
+}
+
+/** Drops empty rows from the end until at most `max` remain. Rows holding colors are kept. */
+export function trimSlots(slots: PaletteSlot[], max: number): PaletteSlot[] {
+  let end = slots.length
+  while (end > max && isSlotEmpty(slots[end - 1])) end--
+  return end === slots.length ? slots : slots.slice(0, end)
+}
+
+/** Moves the row at `from` so it ends up at index `to`. */
+export function moveSlot(slots: PaletteSlot[], from: number, to: number): PaletteSlot[] {
+  if (from === to || to < 0 || to >= slots.length) return slots
+  const next = [...slots]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+export interface PlaceResult {
+  slots: PaletteSlot[]
+  /** Row each placed color went to, in input order. */
+  placed: number[]
+}
+
+/**
+ * Puts colors into empty rows first, then appends new rows until `max` is reached.
+ * Colors that do not fit are left out of `placed`.
+ */
+export function placeColors(slots: PaletteSlot[], colors: string[], max: number): PlaceResult {
+  return place(slots, colors, max, setSlotInput)
+}
+
+/** Like `placeColors`, for whole rows carrying names and scales, such as imported ones. */
+export function placeSlots(slots: PaletteSlot[], incoming: PaletteSlot[], max: number): PlaceResult {
+  return place(slots, incoming, max, (empty, slot) => ({ ...slot, id: empty.id }))
+}
+
+function place<T>(
+  slots: PaletteSlot[],
+  items: T[],
+  max: number,
+  fill: (empty: PaletteSlot, item: T) => PaletteSlot,
+): PlaceResult {
+  const next = [...slots]
+  const placed: number[] = []
+
+  for (const item of items) {
+    let index = next.findIndex(isSlotEmpty)
+    if (index === -1) {
+      if (next.length >= max) break
+      next.push(createEmptySlot())
+      index = next.length - 1
+    }
+    next[index] = fill(next[index], item)
+    placed.push(index)
+  }
+
+  return { slots: next, placed }
+}
@@ -0,0 +1,22 @@
+export {
+  DEFAULT_MAX_PALETTE_SIZE,
+  DEFAULT_PALETTE_SIZE,
+  insertSlots,
+  moveSlot,
+  placeColors,
+  placeSlots,
+  removeSlot,
+  trimSlots,
+  type PlaceResult,
+} from "./edit"
+export { findNearMatch, type NearMatch } from "./match"
+export {
+  createEmptySlot,
+  createEmptySlots,
+  createSlot,
+  getSlotScale,
+  isSlotEmpty,
+  isSlotValid,
+  setSlotInput,
+  type PaletteSlot,
+} from "./slot"
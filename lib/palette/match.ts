@@ -0,0 +1,28 @@
+import { deltaE, parseColor, type DeltaEMethod } from "@/lib/color"
+import type { PaletteSlot } from "./slot"
+
+export interface NearMatch {
+  /** Row of the closest palette color. */
+  index: number
+  distance: number
+}
+
+/** Finds the palette row whose color is closest to `value`, if it is nearer than `threshold` ΔE. */
+export function findNearMatch(
+  value: string,
+  slots: PaletteSlot[],
+  threshold: number,
+  method: DeltaEMethod = "2000",
+): NearMatch | null {
+  const color = parseColor(value)
+  if (!color || threshold <= 0) return null
+
+  let match: NearMatch | null = null
+  slots.forEach((slot, index) => {
+    const other = slot.value ? parseColor(slot.value) : null
+    if (!other) return
+    const distance = deltaE(color, other, method)
+    if (distance < threshold && (!match || distance < match.distance)) match = { index, distance }
+  })
+  return match
+}
@@ -0,0 +1,56 @@
+import { formatHex, generateScale, parseColor, parseCssColor, type ColorFormat, type ScaleCurve, type ScaleStop } from "@/lib/color"
+
+/** One row of the palette: the text the user entered and the color it resolved to. */
+export interface PaletteSlot {
+  /** Stable identity of the row, independent of its position. */
+  id: string
+  /** Text as typed or pasted into the row. */
+  input: string
+  /** Canonical hex of the parsed color, or "" when the input is empty or invalid. */
+  value: string
+  /** Syntax detected in `input`, or null when it did not parse. */
+  format: ColorFormat | null
+  /** Curve of the 50–950 scale generated from this slot, if any. */
+  scale?: ScaleCurve
+  /** User-given name, used for token and variable names on export. */
+  name?: string
+  description?: string
+}
+
+// Only reached from event handlers, so ids are never minted during server or hydration renders;
+// the initial rows get theirs from createEmptySlots instead
+let nextSlotId = 0
+
+const createSlotId = () => `slot-${++nextSlotId}`
+
+export function createSlot(input: string): PaletteSlot {
+  const parsed = parseCssColor(input)
+  if (!parsed) return { id: createSlotId(), input, value: "", format: null }
+  return { id: createSlotId(), input, value: formatHex(parsed.color), format: parsed.format }
+}
+
+export const createEmptySlot = (): PaletteSlot => createSlot("")
+
+/** Re-parses a slot from new text, keeping everything else attached to it. */
+export function setSlotInput(slot: PaletteSlot, input: string): PaletteSlot {
+  return { ...slot, ...createSlot(input), id: slot.id }
+}
+
+export function getSlotScale(slot: PaletteSlot): ScaleStop[] | null {
+  if (!slot.scale) return null
+  const color = parseColor(slot.value)
+  return color ? generateScale(color, slot.scale) : null
+}
+
+/**
+ * Creates `count` empty rows. With an `idPrefix` (such as one from useId) the ids are derived from
+ * it and the row position, so the same rows come out on the server and the client.
+ */
+export function createEmptySlots(count: number, idPrefix?: string): PaletteSlot[] {
+  if (idPrefix === undefined) return Array.from({ length: count }, createEmptySlot)
+  return Array.from({ length: count }, (_, i) => ({ id: `${idPrefix}-${i}`, input: "", value: "", format: null }))
+}
+
+export const isSlotEmpty = (slot: PaletteSlot): boolean => slot.input.trim() === ""
+
+export const isSlotValid = (slot: PaletteSlot): boolean => isSlotEmpty(slot) || slot.value !== ""
@@ -0,0 +1,26 @@
+import { fromRgb } from "@/lib/color"
+import type { ClusterSums, ColorCluster } from "./types"
+
+export const createSums = (): ClusterSums => ({ r: 0, g: 0, b: 0, a: 0, count: 0 })
+
+/** Adds the pixel starting at `offset` in packed RGBA data. */
+export function addPixel(sums: ClusterSums, pixels: Uint8ClampedArray, offset: number): void {
+  sums.r += pixels[offset]
+  sums.g += pixels[offset + 1]
+  sums.b += pixels[offset + 2]
+  sums.a += pixels[offset + 3]
+  sums.count++
+}
+
+/** Turns sums into mean colors with pixel shares, most common first. */
+export function toClusters(sums: ClusterSums[]): ColorCluster[] {
+  const total = sums.reduce((n, s) => n + s.count, 0)
+  return sums
+    .filter((s) => s.count > 0)
+    .map((s) => ({
+      color: fromRgb({ r: s.r / s.count, g: s.g / s.count, b: s.b / s.count }, s.a / s.count / 255),
+      count: s.count,
+      share: s.count / total,
+    }))
+    .sort((a, b) => b.count - a.count)
+}
@@ -0,0 +1,21 @@
+import { toClusters } from "./clusters"
+import { kmeans } from "./kmeans"
+import { medianCut } from "./median-cut"
+import { octree } from "./octree"
+import type { ColorCluster, Quantizer, QuantizerId } from "./types"
+import { wu } from "./wu"
+
+export { mergeSimilarClusters } from "./merge"
+export { samplePixels } from "./sample"
+export type { ClusterSums, ColorCluster, Quantizer, QuantizerId } from "./types"
+
+export const QUANTIZERS: Quantizer[] = [medianCut, octree, wu, kmeans]
+
+export const DEFAULT_QUANTIZER: QuantizerId = "wu"
+
+/** Runs the chosen quantizer and returns clusters with their mean colors, most common first. */
+export function quantize(id: QuantizerId, pixels: Uint8ClampedArray, colorCount: number): ColorCluster[] {
+  if (pixels.length === 0 || colorCount < 1) return []
+  const quantizer = QUANTIZERS.find((q) => q.id === id) ?? QUANTIZERS[0]
+  return toClusters(quantizer.quantize(pixels, colorCount))
+}
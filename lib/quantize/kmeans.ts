@@ -0,0 +1,121 @@
+import { fromRgb, toOklab } from "@/lib/color"
+import { addPixel, createSums } from "./clusters"
+import type { ClusterSums, Quantizer } from "./types"
+
+const MAX_ITERATIONS = 24
+const CONVERGED = 1e-6
+
+interface UniqueColor {
+  count: number
+  lab: [number, number, number]
+  /** Index of the centroid the color is currently assigned to. */
+  cluster: number
+}
+
+const keyAt = (pixels: Uint8ClampedArray, offset: number) =>
+  (pixels[offset] << 16) | (pixels[offset + 1] << 8) | pixels[offset + 2]
+
+const distance = (a: number[], b: number[]) => (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2
+
+/** Collapses identical RGB values so each OKLab conversion and distance is done once per color. */
+function uniqueColors(pixels: Uint8ClampedArray): Map<number, UniqueColor> {
+  const byKey = new Map<number, UniqueColor>()
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    const key = keyAt(pixels, offset)
+    const existing = byKey.get(key)
+    if (existing) {
+      existing.count++
+      continue
+    }
+    const { l, a, b } = toOklab(fromRgb({ r: pixels[offset], g: pixels[offset + 1], b: pixels[offset + 2] }))
+    byKey.set(key, { count: 1, lab: [l, a, b], cluster: 0 })
+  }
+  return byKey
+}
+
+/**
+ * Deterministic farthest-point seeding: start from the most common color, then keep adding
+ * the color with the largest population-weighted distance to its nearest centroid.
+ */
+function seed(colors: UniqueColor[], k: number): number[][] {
+  const first = colors.reduce((best, c) => (c.count > best.count ? c : best))
+  const centroids = [[...first.lab]]
+  const nearest = colors.map((c) => distance(c.lab, first.lab))
+
+  while (centroids.length < k) {
+    let pick = -1
+    let best = 0
+    colors.forEach((c, i) => {
+      const score = nearest[i] * c.count
+      if (score > best) {
+        best = score
+        pick = i
+      }
+    })
+    if (pick === -1) break
+    const centroid = [...colors[pick].lab]
+    centroids.push(centroid)
+    colors.forEach((c, i) => {
+      nearest[i] = Math.min(nearest[i], distance(c.lab, centroid))
+    })
+  }
+
+  return centroids
+}
+
+function nearestCentroid(lab: number[], centroids: number[][]): number {
+  let best = 0
+  let bestDistance = Infinity
+  centroids.forEach((centroid, i) => {
+    const d = distance(lab, centroid)
+    if (d < bestDistance) {
+      bestDistance = d
+      best = i
+    }
+  })
+  return best
+}
+
+/**
+ * Lloyd's k-means with distances measured in OKLab, so clusters follow perceived
+ * differences rather than raw RGB distance.
+ */
+export const kmeans: Quantizer = {
+  id: "kmeans",
+  label: "K-means (OKLab)",
+  quantize(pixels, colorCount) {
+    const byKey = uniqueColors(pixels)
+    const colors = Array.from(byKey.values())
+    if (colors.length === 0) return []
+
+    const centroids = seed(colors, colorCount)
+
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const totals = centroids.map(() => [0, 0, 0, 0])
+      colors.forEach((c) => {
+        c.cluster = nearestCentroid(c.lab, centroids)
+        const total = totals[c.cluster]
+        total[0] += c.lab[0] * c.count
+        total[1] += c.lab[1] * c.count
+        total[2] += c.lab[2] * c.count
+        total[3] += c.count
+      })
+
+      let shift = 0
+      totals.forEach(([l, a, b, count], i) => {
+        if (count === 0) return
+        const next = [l / count, a / count, b / count]
+        shift = Math.max(shift, distance(next, centroids[i]))
+        centroids[i] = next
+      })
+      if (shift < CONVERGED) break
+    }
+
+    // Means are taken over the original pixels, so alpha and exact RGB values are kept
+    const sums: ClusterSums[] = centroids.map(() => createSums())
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+      addPixel(sums[byKey.get(keyAt(pixels, offset))!.cluster], pixels, offset)
+    }
+    return sums
+  },
+}
@@ -0,0 +1,84 @@
+import { addPixel, createSums } from "./clusters"
+import type { Quantizer } from "./types"
+
+interface Box {
+  /** Pixel indexes (not byte offsets) inside the box. */
+  indexes: Uint32Array
+  /** Channel (0 = r, 1 = g, 2 = b) with the widest range, and that range. */
+  channel: number
+  range: number
+}
+
+function measure(pixels: Uint8ClampedArray, indexes: Uint32Array): Box {
+  const min = [255, 255, 255]
+  const max = [0, 0, 0]
+  for (const index of indexes) {
+    for (let c = 0; c < 3; c++) {
+      const value = pixels[index * 4 + c]
+      if (value < min[c]) min[c] = value
+      if (value > max[c]) max[c] = value
+    }
+  }
+  const ranges = [max[0] - min[0], max[1] - min[1], max[2] - min[2]]
+  const channel = ranges.indexOf(Math.max(...ranges))
+  return { indexes, channel, range: ranges[channel] }
+}
+
+/**
+ * Finds the split point nearest the median that does not separate pixels sharing the
+ * median value, so a flat area is never divided into two identical clusters.
+ */
+function medianBoundary(pixels: Uint8ClampedArray, sorted: Uint32Array, channel: number): number {
+  const valueAt = (i: number) => pixels[sorted[i] * 4 + channel]
+  const middle = sorted.length >> 1
+  const median = valueAt(middle)
+
+  let lower = middle
+  while (lower > 0 && valueAt(lower - 1) === median) lower--
+  let upper = middle
+  while (upper < sorted.length && valueAt(upper) === median) upper++
+
+  if (lower === 0) return upper
+  if (upper === sorted.length) return lower
+  return middle - lower <= upper - middle ? lower : upper
+}
+
+/**
+ * Heckbert's median cut: repeatedly splits the box with the largest spread, weighted by
+ * its population, at the median of its widest channel.
+ */
+export const medianCut: Quantizer = {
+  id: "median-cut",
+  label: "Median cut",
+  quantize(pixels, colorCount) {
+    const pixelCount = pixels.length / 4
+    const all = new Uint32Array(pixelCount)
+    for (let i = 0; i < pixelCount; i++) all[i] = i
+
+    const boxes: Box[] = [measure(pixels, all)]
+
+    while (boxes.length < colorCount) {
+      let target = -1
+      let best = 0
+      boxes.forEach((box, i) => {
+        const score = box.range * box.indexes.length
+        if (box.indexes.length > 1 && box.range > 0 && score > best) {
+          best = score
+          target = i
+        }
+      })
+      if (target === -1) break
+
+      const { indexes, channel } = boxes[target]
+      const sorted = indexes.slice().sort((a, b) => pixels[a * 4 + channel] - pixels[b * 4 + channel])
+      const cut = medianBoundary(pixels, sorted, channel)
+      boxes.splice(target, 1, measure(pixels, sorted.subarray(0, cut)), measure(pixels, sorted.subarray(cut)))
+    }
+
+    return boxes.map(({ indexes }) => {
+      const sums = createSums()
+      for (const index of indexes) addPixel(sums, pixels, index * 4)
+      return sums
+    })
+  },
+}
@@ -0,0 +1,46 @@
+import { deltaE, type DeltaEMethod } from "@/lib/color"
+import type { ColorCluster } from "./types"
+
+/** Pools two clusters; the result is still the true mean of all their pixels. */
+function combine(a: ColorCluster, b: ColorCluster): ColorCluster {
+  const count = a.count + b.count
+  const mix = (x: number, y: number) => (x * a.count + y * b.count) / count
+  return {
+    color: {
+      r: mix(a.color.r, b.color.r),
+      g: mix(a.color.g, b.color.g),
+      b: mix(a.color.b, b.color.b),
+      alpha: mix(a.color.alpha, b.color.alpha),
+    },
+    count,
+    share: a.share + b.share,
+  }
+}
+
+/**
+ * Folds each cluster, most common first, into the nearest kept cluster closer than
+ * `threshold` ΔE, so the result holds no two perceptually near-identical colors.
+ */
+export function mergeSimilarClusters(
+  clusters: ColorCluster[],
+  threshold: number,
+  method: DeltaEMethod = "2000",
+): ColorCluster[] {
+  if (threshold <= 0) return clusters
+
+  const kept: ColorCluster[] = []
+  for (const cluster of [...clusters].sort((a, b) => b.count - a.count)) {
+    let nearest = -1
+    let nearestDistance = threshold
+    kept.forEach((other, i) => {
+      const distance = deltaE(cluster.color, other.color, method)
+      if (distance < nearestDistance) {
+        nearestDistance = distance
+        nearest = i
+      }
+    })
+    if (nearest === -1) kept.push(cluster)
+    else kept[nearest] = combine(kept[nearest], cluster)
+  }
+  return kept.sort((a, b) => b.count - a.count)
+}
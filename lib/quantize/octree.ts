@@ -0,0 +1,87 @@
+import { addPixel, createSums } from "./clusters"
+import type { ClusterSums, Quantizer } from "./types"
+
+const MAX_DEPTH = 8
+
+interface OctreeNode {
+  sums: ClusterSums
+  /** Null once the node is a leaf, either at full depth or after being reduced. */
+  children: (OctreeNode | undefined)[] | null
+}
+
+const createNode = (depth: number): OctreeNode => ({
+  sums: createSums(),
+  children: depth < MAX_DEPTH ? new Array(8) : null,
+})
+
+function childIndex(pixels: Uint8ClampedArray, offset: number, depth: number): number {
+  const shift = 7 - depth
+  return (
+    (((pixels[offset] >> shift) & 1) << 2) |
+    (((pixels[offset + 1] >> shift) & 1) << 1) |
+    ((pixels[offset + 2] >> shift) & 1)
+  )
+}
+
+function subtreeCount(node: OctreeNode): number {
+  if (!node.children) return node.sums.count
+  return node.children.reduce((n, child) => n + (child ? subtreeCount(child) : 0), 0)
+}
+
+/**
+ * Gervautz–Purgathofer octree: pixels are filed by the bits of their channels, then the
+ * deepest, least populated branches are folded into their parents until few enough leaves remain.
+ */
+export const octree: Quantizer = {
+  id: "octree",
+  label: "Octree",
+  quantize(pixels, colorCount) {
+    const root = createNode(0)
+    // Internal nodes per depth, so reduction can always start from the deepest level
+    const levels: OctreeNode[][] = Array.from({ length: MAX_DEPTH }, () => [])
+    levels[0].push(root)
+    let leafCount = 0
+
+    for (let offset = 0; offset < pixels.length; offset += 4) {
+      let node = root
+      for (let depth = 0; depth < MAX_DEPTH; depth++) {
+        const children = node.children!
+        const index = childIndex(pixels, offset, depth)
+        let child = children[index]
+        if (!child) {
+          child = createNode(depth + 1)
+          children[index] = child
+          if (child.children) levels[depth + 1].push(child)
+          else leafCount++
+        }
+        node = child
+      }
+      addPixel(node.sums, pixels, offset)
+    }
+
+    for (let depth = MAX_DEPTH - 1; depth >= 0 && leafCount > colorCount; depth--) {
+      const reducible = levels[depth].sort((a, b) => subtreeCount(a) - subtreeCount(b))
+      for (const node of reducible) {
+        if (leafCount <= colorCount) break
+        const children = node.children!.filter((child): child is OctreeNode => child !== undefined)
+        for (const child of children) {
+          node.sums.r += child.sums.r
+          node.sums.g += child.sums.g
+          node.sums.b += child.sums.b
+          node.sums.a += child.sums.a
+          node.sums.count += child.sums.count
+        }
+        node.children = null
+        leafCount -= children.length - 1
+      }
+    }
+
+    const leaves: ClusterSums[] = []
+    const collect = (node: OctreeNode) => {
+      if (!node.children) leaves.push(node.sums)
+      else node.children.forEach((child) => child && collect(child))
+    }
+    collect(root)
+    return leaves
+  },
+}
@@ -0,0 +1,18 @@
+/**
+ * Copies every `stride`-th pixel of packed RGBA image data, dropping fully transparent
+ * pixels whose RGB carries no color.
+ */
+export function samplePixels(data: Uint8ClampedArray, stride = 1): Uint8ClampedArray {
+  const step = Math.max(1, Math.floor(stride)) * 4
+  const sampled = new Uint8ClampedArray(Math.ceil(data.length / step) * 4)
+  let length = 0
+  for (let offset = 0; offset < data.length; offset += step) {
+    if (data[offset + 3] === 0) continue
+    sampled[length] = data[offset]
+    sampled[length + 1] = data[offset + 1]
+    sampled[length + 2] = data[offset + 2]
+    sampled[length + 3] = data[offset + 3]
+    length += 4
+  }
+  return sampled.subarray(0, length)
+}
@@ -0,0 +1,32 @@
+import type { Color } from "@/lib/color"
+
+export type QuantizerId = "median-cut" | "octree" | "wu" | "kmeans"
+
+/** One group of similar pixels found by a quantizer. */
+export interface ColorCluster {
+  /** Mean of every pixel assigned to the cluster, not a box corner or centroid estimate. */
+  color: Color
+  /** Number of sampled pixels in the cluster. */
+  count: number
+  /** Fraction of all sampled pixels, 0–1. */
+  share: number
+}
+
+/** Running channel sums for a cluster, from which the true mean is taken. */
+export interface ClusterSums {
+  r: number
+  g: number
+  b: number
+  a: number
+  count: number
+}
+
+export interface Quantizer {
+  id: QuantizerId
+  label: string
+  /**
+   * Groups packed RGBA pixels into at most `colorCount` clusters. Pixels must already be
+   * sampled and have fully transparent ones removed.
+   */
+  quantize: (pixels: Uint8ClampedArray, colorCount: number) => ClusterSums[]
+}
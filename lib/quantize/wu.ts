@@ -0,0 +1,194 @@
+import type { ClusterSums, Quantizer } from "./types"
+
+// Channels are histogrammed at 5 bits, plus a zero row/column/plane for the cumulative moments
+const SIDE = 33
+const TABLE_SIZE = SIDE * SIDE * SIDE
+
+type Axis = 0 | 1 | 2
+
+interface Cube {
+  min: [number, number, number]
+  max: [number, number, number]
+}
+
+interface Moments {
+  weight: Float64Array
+  r: Float64Array
+  g: Float64Array
+  b: Float64Array
+  a: Float64Array
+  squares: Float64Array
+}
+
+const index = (r: number, g: number, b: number) => r * SIDE * SIDE + g * SIDE + b
+
+function buildMoments(pixels: Uint8ClampedArray): Moments {
+  const m: Moments = {
+    weight: new Float64Array(TABLE_SIZE),
+    r: new Float64Array(TABLE_SIZE),
+    g: new Float64Array(TABLE_SIZE),
+    b: new Float64Array(TABLE_SIZE),
+    a: new Float64Array(TABLE_SIZE),
+    squares: new Float64Array(TABLE_SIZE),
+  }
+
+  for (let offset = 0; offset < pixels.length; offset += 4) {
+    const r = pixels[offset]
+    const g = pixels[offset + 1]
+    const b = pixels[offset + 2]
+    const i = index((r >> 3) + 1, (g >> 3) + 1, (b >> 3) + 1)
+    m.weight[i]++
+    m.r[i] += r
+    m.g[i] += g
+    m.b[i] += b
+    m.a[i] += pixels[offset + 3]
+    m.squares[i] += r * r + g * g + b * b
+  }
+
+  // Turn the histogram into cumulative moments so any box sum is eight lookups
+  for (const table of Object.values(m) as Float64Array[]) {
+    for (let r = 1; r < SIDE; r++) {
+      const area = new Float64Array(SIDE)
+      for (let g = 1; g < SIDE; g++) {
+        let line = 0
+        for (let b = 1; b < SIDE; b++) {
+          const i = index(r, g, b)
+          line += table[i]
+          area[b] += line
+          table[i] = table[index(r - 1, g, b)] + area[b]
+        }
+      }
+    }
+  }
+
+  return m
+}
+
+function volume({ min, max }: Cube, table: Float64Array): number {
+  const [r0, g0, b0] = min
+  const [r1, g1, b1] = max
+  return (
+    table[index(r1, g1, b1)] -
+    table[index(r1, g1, b0)] -
+    table[index(r1, g0, b1)] +
+    table[index(r1, g0, b0)] -
+    table[index(r0, g1, b1)] +
+    table[index(r0, g1, b0)] +
+    table[index(r0, g0, b1)] -
+    table[index(r0, g0, b0)]
+  )
+}
+
+/** Sum over the cube's face at `position` along `axis`, as a partial volume. */
+function top(cube: Cube, axis: Axis, position: number, table: Float64Array): number {
+  const lo = cube.min
+  const hi = cube.max
+  // With the axis pinned, the eight-term volume collapses to four terms of the face
+  const at = (r: number, g: number, b: number) => table[index(r, g, b)]
+  switch (axis) {
+    case 0:
+      return at(position, hi[1], hi[2]) - at(position, hi[1], lo[2]) - at(position, lo[1], hi[2]) + at(position, lo[1], lo[2])
+    case 1:
+      return at(hi[0], position, hi[2]) - at(hi[0], position, lo[2]) - at(lo[0], position, hi[2]) + at(lo[0], position, lo[2])
+    case 2:
+      return at(hi[0], hi[1], position) - at(hi[0], lo[1], position) - at(lo[0], hi[1], position) + at(lo[0], lo[1], position)
+  }
+}
+
+function variance(cube: Cube, m: Moments): number {
+  const weight = volume(cube, m.weight)
+  if (weight === 0) return 0
+  const r = volume(cube, m.r)
+  const g = volume(cube, m.g)
+  const b = volume(cube, m.b)
+  return volume(cube, m.squares) - (r * r + g * g + b * b) / weight
+}
+
+function maximize(cube: Cube, axis: Axis, m: Moments) {
+  const whole = {
+    r: volume(cube, m.r),
+    g: volume(cube, m.g),
+    b: volume(cube, m.b),
+    weight: volume(cube, m.weight),
+  }
+  const base = {
+    r: -top(cube, axis, cube.min[axis], m.r),
+    g: -top(cube, axis, cube.min[axis], m.g),
+    b: -top(cube, axis, cube.min[axis], m.b),
+    weight: -top(cube, axis, cube.min[axis], m.weight),
+  }
+
+  let best = 0
+  let cut = -1
+  for (let position = cube.min[axis] + 1; position < cube.max[axis]; position++) {
+    const r = base.r + top(cube, axis, position, m.r)
+    const g = base.g + top(cube, axis, position, m.g)
+    const b = base.b + top(cube, axis, position, m.b)
+    const weight = base.weight + top(cube, axis, position, m.weight)
+    const restWeight = whole.weight - weight
+    if (weight === 0 || restWeight === 0) continue
+
+    const restR = whole.r - r
+    const restG = whole.g - g
+    const restB = whole.b - b
+    const score = (r * r + g * g + b * b) / weight + (restR * restR + restG * restG + restB * restB) / restWeight
+    if (score > best) {
+      best = score
+      cut = position
+    }
+  }
+  return { best, cut }
+}
+
+/** Splits `cube` in place along its best axis and returns the other half, or null if it cannot be split. */
+function split(cube: Cube, m: Moments): Cube | null {
+  const candidates = ([0, 1, 2] as Axis[])
+    .map((axis) => ({ axis, ...maximize(cube, axis, m) }))
+    .filter(({ cut }) => cut >= 0)
+    .sort((a, b) => b.best - a.best)
+  if (candidates.length === 0) return null
+
+  const { axis, cut } = candidates[0]
+  const other: Cube = { min: [...cube.min], max: [...cube.max] }
+  other.min[axis] = cut
+  cube.max[axis] = cut
+  return other
+}
+
+/**
+ * Xiaolin Wu's quantizer: splits the RGB cube into boxes that minimise the summed
+ * squared error, using cumulative moments over a 32-level histogram.
+ */
+export const wu: Quantizer = {
+  id: "wu",
+  label: "Wu",
+  quantize(pixels, colorCount) {
+    const m = buildMoments(pixels)
+    const cubes: Cube[] = [{ min: [0, 0, 0], max: [SIDE - 1, SIDE - 1, SIDE - 1] }]
+    const variances = [variance(cubes[0], m)]
+
+    while (cubes.length < colorCount) {
+      const next = variances.indexOf(Math.max(...variances))
+      if (variances[next] <= 0) break
+
+      const other = split(cubes[next], m)
+      if (!other) {
+        variances[next] = 0
+        continue
+      }
+      cubes.push(other)
+      variances[next] = variance(cubes[next], m)
+      variances.push(variance(other, m))
+    }
+
+    return cubes.map(
+      (cube): ClusterSums => ({
+        r: volume(cube, m.r),
+        g: volume(cube, m.g),
+        b: volume(cube, m.b),
+        a: volume(cube, m.a),
+        count: volume(cube, m.weight),
+      }),
+    )
+  },
+}